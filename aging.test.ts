@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { computeAging, daysBetween, settleFifo } from './aging';
+
+describe('settleFifo', () => {
+  it('applies payments to the oldest charges first, whatever the input order', () => {
+    const records = [
+      { date: '2026-03-01', amount: 5000 },
+      { date: '2026-03-10', amount: -7000 },
+      { date: '2026-01-01', amount: 4000 },
+      { date: '2026-02-01', amount: 3000 },
+    ];
+    expect(settleFifo(records).map(({ charge, open }) => [charge.date, open])).toEqual([
+      ['2026-01-01', 0], ['2026-02-01', 0], ['2026-03-01', 5000],
+    ]);
+    expect(records[0].date).toBe('2026-03-01');
+  });
+
+  it('leaves overpayments unapplied', () => {
+    expect(settleFifo([{ date: '2026-01-01', amount: 1000 }, { date: '2026-01-02', amount: -5000 }])).toEqual([
+      { charge: { date: '2026-01-01', amount: 1000 }, open: 0 },
+    ]);
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts calendar days across month ends', () => {
+    expect(daysBetween('2026-01-31', '2026-03-01')).toBe(29);
+    expect(daysBetween('2026-03-01', '2026-03-01')).toBe(0);
+  });
+});
+
+describe('computeAging', () => {
+  const parties = [{ id: 'a', name: 'Ana' }, { id: 'b', name: 'Beto' }, { id: 'c', name: 'Carla' }];
+
+  it('buckets what is still open by the age of its charge', () => {
+    const rows = computeAging(parties, [
+      { ownerId: 'a', date: '2026-06-01', amount: 1000 }, // 122 days
+      { ownerId: 'a', date: '2026-07-15', amount: 2000 }, // 78 days
+      { ownerId: 'a', date: '2026-08-31', amount: 3000 }, // 31 days
+      { ownerId: 'a', date: '2026-09-30', amount: 4000 }, // 1 day
+      { ownerId: 'a', date: '2026-09-01', amount: -1500 },
+      { ownerId: 'b', date: '2026-09-01', amount: 500 },
+    ], '2026-10-01');
+    expect(rows).toEqual([
+      { id: 'a', name: 'Ana', buckets: [4000, 3000, 1500, 0], total: 8500 },
+      { id: 'b', name: 'Beto', buckets: [500, 0, 0, 0], total: 500 },
+    ]);
+  });
+
+  it('puts the bucket edges at 30, 60 and 90 days', () => {
+    const rows = computeAging(parties.slice(0, 1), ['2026-09-01', '2026-08-31', '2026-08-02', '2026-08-01', '2026-07-03', '2026-07-02']
+      .map(date => ({ ownerId: 'a', date, amount: 1 })), '2026-10-01');
+    expect(rows[0].buckets).toEqual([1, 2, 2, 1]);
+  });
+
+  it('leaves out parties that owe nothing', () => {
+    const rows = computeAging(parties, [
+      { ownerId: 'a', date: '2026-01-01', amount: 1000 },
+      { ownerId: 'a', date: '2026-02-01', amount: -1000 },
+      { ownerId: 'c', date: '2026-02-01', amount: -200 },
+    ], '2026-10-01');
+    expect(rows).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { sumMoney } from './money';
+
+export const AGING_BUCKET_LABELS = ['0–30 días', '31–60 días', '61–90 días', '90+ días'];
+
+export interface AgingRow {
+  id: string;
+  name: string;
+  buckets: number[]; // outstanding amount per AGING_BUCKET_LABELS entry
+  total: number;
+}
+
+// Applies payments (negative amounts) to charges oldest first. Returns every charge with what is still open on it.
+export function settleFifo<T extends { date: string; amount: number }>(records: T[]): { charge: T; open: number }[] {
+  let payments = -sumMoney(records.filter(r => r.amount < 0).map(r => r.amount));
+  return records.filter(r => r.amount > 0).sort((a, b) => a.date.localeCompare(b.date)).map(charge => {
+    const paid = Math.min(payments, charge.amount);
+    payments -= paid;
+    return { charge, open: charge.amount - paid };
+  });
+}
+
+// Days between two 'YYYY-MM-DD' dates.
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+// Outstanding balance of every party, bucketed by the age of the charges it comes from. Payments (negative
+// amounts) settle the oldest charges first. Parties that owe nothing are left out.
+export function computeAging(parties: { id: string; name: string }[], records: { ownerId: string; date: string; amount: number }[], today: string): AgingRow[] {
+  const byOwner = new Map<string, { date: string; amount: number }[]>();
+  records.forEach(r => byOwner.set(r.ownerId, [...(byOwner.get(r.ownerId) || []), r]));
+
+  return parties.map(party => {
+    const buckets = [0, 0, 0, 0];
+    settleFifo(byOwner.get(party.id) || []).forEach(({ charge, open }) => {
+      const days = daysBetween(charge.date, today);
+      buckets[days > 90 ? 3 : days > 60 ? 2 : days > 30 ? 1 : 0] += open;
+    });
+    return { id: party.id, name: party.name, buckets, total: buckets.reduce((sum, b) => sum + b, 0) };
+  }).filter(row => row.total > 0).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Expense, ExpenseCategory, Money } from './types';
+
+export const DEFAULT_CATEGORY_ICON = 'fa-tag';
+export const CATEGORY_ICONS = [
+  'fa-tag', 'fa-bus', 'fa-utensils', 'fa-house', 'fa-bolt', 'fa-mobile-screen', 'fa-cart-shopping', 'fa-gas-pump',
+  'fa-heart-pulse', 'fa-graduation-cap', 'fa-shirt', 'fa-gift', 'fa-briefcase', 'fa-book-open', 'fa-paw', 'fa-film',
+];
+export const CATEGORY_COLORS = ['#bb86fc', '#03dac6', '#ff7575', '#ffb74d', '#64b5f6', '#81c784', '#f06292', '#a1887f'];
+
+export interface CategorySpending {
+  category: ExpenseCategory;
+  spent: Money;
+  count: number;
+}
+
+// What each category spent in `month` ('YYYY-MM'), largest first. Categories with a budget are
+// listed even when nothing was spent, so their remaining budget shows.
+export function computeCategorySpending(categories: ExpenseCategory[], expenses: Expense[], month: string): CategorySpending[] {
+  const rows = new Map(categories.map(category => [category.id, { category, spent: 0, count: 0 }]));
+  expenses.filter(e => e.date.startsWith(month)).forEach(expense => {
+    const row = rows.get(expense.categoryId);
+    if (!row) return;
+    row.spent += expense.amount;
+    row.count++;
+  });
+  return [...rows.values()]
+    .filter(row => row.count > 0 || row.category.budget)
+    .sort((a, b) => b.spent - a.spent || a.category.name.localeCompare(b.category.name));
+}
@@ -3,1018 +3,5686 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-// --- DATA TYPES ---
-interface Client {
-  id: string;
-  name: string;
-  phone: string;
+import type {
+  Money, Client, SaleItem, InstallmentFrequency, InstallmentPlan, Transaction, Sale, Expense, ExpenseCategory,
+  Product, Creditor, CreditorTransaction, Campaign, RecurringTemplate, OrderStatus, OrderLine, Order,
+  StockMovementKind, StockMovement, Entity, EntityType, DataSet,
+} from './types';
+import { MAX_MONEY, toMinor, toMajor, parseMoney, sumMoney } from './money';
+import { normalizeText } from './text';
+import {
+  DEFAULT_CATEGORY_ICON, CATEGORY_ICONS, CATEGORY_COLORS, computeCategorySpending, type CategorySpending,
+} from './categories';
+import { generateId, MIGRATIONS, SCHEMA_VERSION, migrateData, type MigrationLogEntry } from './migrations';
+import { INSTALLMENT_FREQUENCY_LABELS, installmentDueDate, computeInstallmentStatus } from './installments';
+import { AGING_BUCKET_LABELS, settleFifo, computeAging } from './aging';
+import {
+  CHANGE_SET_KIND, STOCK_SOURCE_TYPES, stockProductIds, planMerge, type Tombstone, type ChangeSet,
+  type SyncConflict, type SyncResult,
+} from './sync';
+
+// --- FORMATTING ---
+// Every amount and date shown in the app goes through these functions, so they follow the user's settings.
+type DateFormat = 'locale' | 'dd/mm/yyyy' | 'mm/dd/yyyy' | 'yyyy-mm-dd';
+
+interface Settings {
+  currency: string; // ISO 4217 code
+  locale: string; // BCP 47 tag, controls separators and month names
+  countryCode: string; // calling code added to local phone numbers in WhatsApp links, e.g. '57'
+  dateFormat: DateFormat;
+  decimals: number | null; // digits after the decimal point; null uses the currency's own
+  businessName: string; // shown on statements
+  businessPhone: string;
 }
 
-interface Transaction {
-  id: string;
-  clientId: string;
-  date: string;
-  amount: number; // positive for sale/loan, negative for payment
-  description: string;
+const DEFAULT_SETTINGS: Settings = {
+  currency: 'COP',
+  locale: 'es-CO',
+  countryCode: '57',
+  dateFormat: 'locale',
+  decimals: null,
+  businessName: '',
+  businessPhone: '',
+};
+
+let activeSettings: Settings = DEFAULT_SETTINGS;
+let moneyFormat = new Intl.NumberFormat(DEFAULT_SETTINGS.locale, { style: 'currency', currency: DEFAULT_SETTINGS.currency });
+
+// Throws a RangeError if the locale or currency is not supported by the browser.
+function applySettings(settings: Settings): void {
+  const digits = settings.decimals ?? undefined;
+  moneyFormat = new Intl.NumberFormat(settings.locale, {
+    style: 'currency', currency: settings.currency, minimumFractionDigits: digits, maximumFractionDigits: digits,
+  });
+  activeSettings = settings;
 }
 
-interface Sale { // General sale not tied to a client
-  id: string;
-  date: string;
-  amount: number;
-  description: string;
+// `fractionDigits` overrides the configured decimals, e.g. 0 for compact report tables.
+function formatMoney(amount: Money, fractionDigits?: number): string {
+  if (fractionDigits === undefined) return moneyFormat.format(toMajor(amount));
+  return toMajor(amount).toLocaleString(activeSettings.locale, {
+    style: 'currency', currency: activeSettings.currency, minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits,
+  });
 }
 
-interface Expense {
-  id: string;
-  date: string;
-  amount: number;
-  category: string;
-  description: string;
-  creditorId?: string; // Optional link to a creditor
+// Accepts 'YYYY-MM-DD' dates, read as local dates so they don't shift a day west of UTC, or full ISO timestamps.
+function toDate(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(value + 'T00:00:00') : new Date(value);
 }
 
-interface Product {
-    id: string;
-    name: string;
-    description: string;
-    price: number;
-    quantity: number;
+function formatDate(value: string): string {
+  const date = toDate(value);
+  if (activeSettings.dateFormat === 'locale') return date.toLocaleDateString(activeSettings.locale);
+  const parts: Record<string, string> = {
+    dd: String(date.getDate()).padStart(2, '0'),
+    mm: String(date.getMonth() + 1).padStart(2, '0'),
+    yyyy: String(date.getFullYear()),
+  };
+  return activeSettings.dateFormat.replace(/dd|mm|yyyy/g, part => parts[part]);
 }
 
-interface Creditor {
-    id: string;
-    name: string;
-    phone: string;
+function formatDateTime(value: string): string {
+  const date = toDate(value);
+  return `${formatDate(value)} ${date.toLocaleTimeString(activeSettings.locale, { hour: '2-digit', minute: '2-digit' })}`;
 }
 
-interface CreditorTransaction {
-    id: string;
-    creditorId: string;
-    date: string;
-    amount: number; // positive for purchase, negative for payment
-    description: string;
+// 'YYYY-MM' → "Septiembre de 2026"
+function formatMonth(month: string): string {
+  const monthName = new Date(month + '-02T00:00:00').toLocaleString(activeSettings.locale, { month: 'long', year: 'numeric' });
+  return monthName.charAt(0).toUpperCase() + monthName.slice(1);
 }
 
+// --- ENCRYPTION ---
+// With the PIN lock on, records are stored sealed with AES-GCM under a random data key. The data key is
+// stored wrapped with a key derived from the PIN (PBKDF2), so changing the PIN only re-wraps it and a
+// wrong PIN simply fails to unwrap it. Without the PIN the data key, and so the data, can't be recovered.
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PIN_LENGTH = 4;
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30]; // minutes
 
-type Entity = Client | Transaction | Sale | Expense | Product | Creditor | CreditorTransaction;
-type EntityType = 'clients' | 'transactions' | 'sales' | 'expenses' | 'products' | 'creditors' | 'creditorTransactions';
+interface LockConfig {
+  salt: Uint8Array;
+  iterations: number;
+  iv: Uint8Array;
+  wrappedKey: ArrayBuffer;
+  autoLockMinutes: number;
+}
 
-// --- DATA STORE (using localStorage) ---
-class Store {
-  private get<T extends Entity>(type: EntityType): T[] {
-    const data = localStorage.getItem(type);
-    return data ? (JSON.parse(data) as T[]) : [];
+interface SealedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+async function derivePinKey(pin: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material,
+    { name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey'],
+  );
+}
+
+// Wraps `dataKey` under `pin`, with a fresh salt so an old PIN's derived key is of no use.
+async function wrapDataKey(dataKey: CryptoKey, pin: string, autoLockMinutes: number): Promise<LockConfig> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const pinKey = await derivePinKey(pin, salt, PBKDF2_ITERATIONS);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, pinKey, { name: 'AES-GCM', iv });
+  return { salt, iterations: PBKDF2_ITERATIONS, iv, wrappedKey, autoLockMinutes };
+}
+
+async function createDataKey(): Promise<CryptoKey> {
+  // Extractable only so it can be wrapped again when the PIN changes
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function unwrapDataKey(config: LockConfig, pin: string): Promise<CryptoKey> {
+  const pinKey = await derivePinKey(pin, config.salt, config.iterations);
+  try {
+    return await crypto.subtle.unwrapKey('raw', config.wrappedKey, pinKey, { name: 'AES-GCM', iv: config.iv },
+      { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  } catch {
+    throw new Error('PIN incorrecto.');
+  }
+}
+
+async function sealValue(key: CryptoKey, value: unknown): Promise<SealedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv, data };
+}
+
+async function openValue<T>(key: CryptoKey, sealed: SealedValue): Promise<T> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+// --- DATA STORE (using IndexedDB) ---
+const DB_NAME = 'gestion-finanzas';
+const DB_VERSION = 9;
+const META_STORE = 'meta'; // key/value pairs: schema version, migration log and reminder state (also read by sw.js)
+const BACKUP_STORE = 'backups'; // snapshots taken before each migration step
+const AUDIT_STORE = 'auditLog'; // append-only history of every change to an entity
+const TOMBSTONE_STORE = 'tombstones'; // permanently deleted records, so sync can delete them elsewhere
+const MAX_MIGRATION_BACKUPS = 3;
+
+// One object store per entity type, with the indexes each one is queried by.
+const STORE_INDEXES: Record<EntityType, string[]> = {
+  clients: [],
+  transactions: ['clientId', 'date'],
+  sales: ['date'],
+  expenses: ['creditorId', 'date'],
+  categories: [],
+  recurringTemplates: [],
+  products: [],
+  creditors: [],
+  creditorTransactions: ['creditorId', 'date'],
+  campaigns: [],
+  orders: ['clientId'],
+  stockMovements: ['productId', 'sourceId', 'date'],
+};
+const ENTITY_TYPES = Object.keys(STORE_INDEXES) as EntityType[];
+
+// Records that are deleted (and restored) together with their parent.
+const CASCADE_CHILDREN: Partial<Record<EntityType, { type: EntityType; index: string }>> = {
+  clients: { type: 'transactions', index: 'clientId' },
+  creditors: { type: 'creditorTransactions', index: 'creditorId' },
+};
+
+// Wraps an IDBRequest in a promise.
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves once a transaction has been committed.
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transacción cancelada'));
+  });
+}
+
+// Meta entries that stay unencrypted with the PIN lock on: what is needed before unlocking, and what
+// sw.js reads to show reminders while the app is closed.
+const PLAIN_META_KEYS = ['lock', 'schemaVersion', 'remindersEnabled', 'reminderQueue', 'shownReminders'];
+
+// What the lock does not hide, shown on the security card: unsealedFields() of every store.
+const LOCK_COVERAGE_NOTE = 'Los nombres, montos, descripciones y notas quedan cifrados; los identificadores, las fechas y los enlaces entre registros (a qué cliente, acreedor o producto pertenece cada uno) no, porque la app los usa para buscar.';
+
+// Fields a sealed record keeps readable: its key and whatever the store's indexes look up.
+function unsealedFields(storeName: string): string[] {
+  if (storeName === META_STORE) return ['key'];
+  if (storeName === AUDIT_STORE) return ['seq', 'entityId', 'ownerId'];
+  if (storeName === BACKUP_STORE || storeName === TOMBSTONE_STORE) return ['id'];
+  return ['id', ...STORE_INDEXES[storeName as EntityType]];
+}
+
+// A record as stored with the PIN lock on: the fields unsealedFields() keeps readable, plus the rest sealed.
+interface SealedRecord {
+  sealed: SealedValue;
+  [field: string]: unknown;
+}
+
+function isSealed(record: unknown): record is SealedRecord {
+  return typeof record === 'object' && record !== null && 'sealed' in record;
+}
+
+async function sealRecord(key: CryptoKey, storeName: string, record: object): Promise<object> {
+  const fields = record as Record<string, unknown>;
+  if (isSealed(record) || (storeName === META_STORE && PLAIN_META_KEYS.includes(fields.key as string))) return record;
+  const sealed: SealedRecord = { sealed: await sealValue(key, record) };
+  unsealedFields(storeName).forEach(field => { if (fields[field] !== undefined) sealed[field] = fields[field]; });
+  return sealed;
+}
+
+async function openRecord<T>(key: CryptoKey | null, record: unknown): Promise<T> {
+  if (!isSealed(record)) return record as T;
+  if (!key) throw new Error('Los datos están bloqueados.');
+  const { sealed, ...readable } = record;
+  return { ...(await openValue<object>(key, sealed)), ...readable } as T;
+}
+
+// Field each store is keyed by.
+function keyPathOf(storeName: string): string {
+  return storeName === META_STORE ? 'key' : storeName === AUDIT_STORE ? 'seq' : 'id';
+}
+
+// The writes of one Store operation, held in memory until Store.commit() applies them together in a
+// single short transaction. Reads made for the operation see its own pending writes. Records are sealed
+// before that transaction starts and opened after the reading one has finished, because IndexedDB
+// commits a transaction as soon as it has no request pending, e.g. while WebCrypto is working.
+class Batch {
+  readonly records = new Map<string, Map<string, object | null>>(); // store → key → record, or null once deleted
+  readonly added = new Map<string, object[]>(); // records the store assigns a key to (the audit log)
+  readonly cleared = new Set<string>();
+
+  put(storeName: string, record: object): void {
+    const key = (record as Record<string, unknown>)[keyPathOf(storeName)];
+    if (key === undefined) this.added.set(storeName, [...(this.added.get(storeName) || []), record]);
+    else this.storeRecords(storeName).set(String(key), record);
   }
 
-  private set<T extends Entity>(type: EntityType, data: T[]): void {
-    localStorage.setItem(type, JSON.stringify(data));
+  // Deletes one record or, without `key`, empties the store.
+  delete(storeName: string, key?: string): void {
+    if (key !== undefined) {
+      this.storeRecords(storeName).set(key, null);
+      return;
+    }
+    this.cleared.add(storeName);
+    this.records.delete(storeName);
+    this.added.delete(storeName);
   }
-  
-  private generateId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+  get storeNames(): string[] {
+    return [...new Set([...this.records.keys(), ...this.added.keys(), ...this.cleared])];
   }
 
-  // Generic save method for all types
-  save<T extends Entity & { id: string }>(type: EntityType, item: Omit<T, 'id'> & { id?: string }): T {
-    const items = this.get<T>(type);
-    if (item.id) { // Update
-      const index = items.findIndex(i => i.id === item.id);
-      if (index > -1) {
-        items[index] = item as T;
+  private storeRecords(storeName: string): Map<string, object | null> {
+    let records = this.records.get(storeName);
+    if (!records) this.records.set(storeName, records = new Map());
+    return records;
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      ENTITY_TYPES.forEach(type => {
+        if (db.objectStoreNames.contains(type)) return;
+        const objectStore = db.createObjectStore(type, { keyPath: 'id' });
+        STORE_INDEXES[type].forEach(index => objectStore.createIndex(index, index));
+      });
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(BACKUP_STORE)) db.createObjectStore(BACKUP_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(TOMBSTONE_STORE)) db.createObjectStore(TOMBSTONE_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+        const auditStore = db.createObjectStore(AUDIT_STORE, { keyPath: 'seq', autoIncrement: true });
+        auditStore.createIndex('entityId', 'entityId');
+        auditStore.createIndex('ownerId', 'ownerId');
       }
-    } else { // Create
-      item.id = this.generateId();
-      items.push(item as T);
-    }
-    this.set(type, items);
-    return item as T;
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('La base de datos está abierta en otra pestaña.'));
+  });
+}
+
+type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'import' | 'sync';
+
+interface AuditEntry {
+  seq?: number;
+  entityType: EntityType;
+  entityId: string;
+  ownerId?: string; // client or creditor the record belongs to, so their history includes it
+  action: AuditAction;
+  before: Entity | null;
+  after: Entity | null;
+  timestamp: string;
+  minorUnits?: boolean; // amounts are in minor units; entries written before schema v3 hold floats
+}
+
+function auditOwnerId(type: EntityType, item: Entity): string | undefined {
+  switch (type) {
+    case 'clients':
+    case 'creditors': return item.id;
+    case 'transactions': return (item as Transaction).clientId;
+    case 'creditorTransactions': return (item as CreditorTransaction).creditorId;
+    case 'expenses': return (item as Expense).creditorId;
+    case 'campaigns': return (item as Campaign).creditorId;
+    case 'orders': return (item as Order).clientId;
+    default: return undefined;
   }
+}
 
-  delete(type: EntityType, id: string): void {
-    let items = this.get(type);
-    items = items.filter(item => item.id !== id);
-    this.set(type, items);
+function saleItemTotal(item: SaleItem): number {
+  return item.quantity * item.unitPrice - item.discount;
+}
 
-    if (type === 'clients') {
-      const transactions = this.get<Transaction>('transactions').filter(t => t.clientId !== id);
-      this.set('transactions', transactions);
-    }
-    if (type === 'creditors') {
-        const transactions = this.get<CreditorTransaction>('creditorTransactions').filter(t => t.creditorId !== id);
-        this.set('creditorTransactions', transactions);
+// A record in the recycle bin together with the children deleted along with it.
+interface TrashEntry {
+  deletionId: string;
+  deletedAt: string;
+  type: EntityType;
+  item: Entity;
+  children: { type: EntityType; item: Entity }[];
+}
+
+interface MigrationBackup {
+  id: string;
+  createdAt: string;
+  schemaVersion: number;
+  reason: string;
+  data: DataSet;
+}
+
+class Store {
+  private db: IDBDatabase | null = null;
+  private lockConfig: LockConfig | null = null;
+  private key: CryptoKey | null = null; // data key, only held while unlocked
+  private ready = false;
+  private deviceId = '';
+  private queue: Promise<unknown> = Promise.resolve(); // tail of the operations waiting in exclusive()
+
+  // Opens the database and, unless the PIN lock is on, prepares the data. With the lock on
+  // that waits for unlock().
+  async open(): Promise<void> {
+    this.db = await openDatabase();
+    this.lockConfig = (await this.getMeta<LockConfig>('lock')) ?? null;
+    if (!this.isLocked) await this.prepareData();
+  }
+
+  // Moves any data left over from the localStorage version and brings the stored data
+  // up to the current schema version.
+  private async prepareData(): Promise<void> {
+    if (this.ready) return;
+    await this.migrateFromLocalStorage();
+    await this.runMigrations();
+    this.deviceId = (await this.getMeta<string>('deviceId')) ?? '';
+    if (!this.deviceId) {
+      this.deviceId = generateId();
+      await this.setMeta('deviceId', this.deviceId);
     }
+    this.ready = true;
   }
 
-  getClients = () => this.get<Client>('clients');
-  getClient = (id: string) => this.get<Client>('clients').find(c => c.id === id);
-  getSales = () => this.get<Sale>('sales');
-  getSale = (id: string) => this.get<Sale>('sales').find(s => s.id === id);
-  getExpenses = () => this.get<Expense>('expenses');
-  getExpense = (id: string) => this.get<Expense>('expenses').find(e => e.id === id);
-  getTransactionsForClient = (clientId: string) => 
-    this.get<Transaction>('transactions').filter(t => t.clientId === clientId);
-  getTransaction = (id: string) => this.get<Transaction>('transactions').find(t => t.id === id);
-  
-  getProducts = () => this.get<Product>('products');
-  getProduct = (id: string) => this.get<Product>('products').find(p => p.id === id);
+  private get database(): IDBDatabase {
+    if (!this.db) throw new Error('Store no inicializado. Llama a open() primero.');
+    return this.db;
+  }
 
-  getCreditors = () => this.get<Creditor>('creditors');
-  getCreditor = (id: string) => this.get<Creditor>('creditors').find(c => c.id === id);
-  getTransactionsForCreditor = (creditorId: string) => 
-    this.get<CreditorTransaction>('creditorTransactions').filter(t => t.creditorId === creditorId);
-  getCreditorTransaction = (id: string) => this.get<CreditorTransaction>('creditorTransactions').find(t => t.id === id);
+  get isLockEnabled(): boolean { return !!this.lockConfig; }
+  get isLocked(): boolean { return !!this.lockConfig && !this.key; }
+  get autoLockMinutes(): number | null { return this.lockConfig?.autoLockMinutes ?? null; }
 
-  getClientBalance = (clientId: string): number => {
-    const transactions = this.getTransactionsForClient(clientId);
-    return transactions.reduce((sum, t) => sum + t.amount, 0);
+  // Throws if the PIN is wrong.
+  async unlock(pin: string): Promise<void> {
+    this.key = await unwrapDataKey(this.lockConfig!, pin);
+    await this.prepareData();
   }
-  
-  getCreditorBalance = (creditorId: string): number => {
-      const transactions = this.getTransactionsForCreditor(creditorId);
-      return transactions.reduce((sum, t) => sum + t.amount, 0);
+
+  // Forgets the data key: nothing can be read or written until the next unlock().
+  lock(): void {
+    if (this.lockConfig) this.key = null;
   }
 
-  getTotalClientDebt = (): number => {
-    const clients = this.getClients();
-    return clients.reduce((totalDebt, client) => {
-        const balance = this.getClientBalance(client.id);
-        return balance > 0 ? totalDebt + balance : totalDebt;
-    }, 0);
+  // Turns the PIN lock on, sealing every stored record in one transaction.
+  async enableLock(pin: string, autoLockMinutes: number): Promise<void> {
+    const key = await createDataKey();
+    const config = await wrapDataKey(key, pin, autoLockMinutes);
+    await this.exclusive(async () => {
+      await this.rewriteAll((storeName, record) => sealRecord(key, storeName, record), config);
+      this.lockConfig = config;
+      this.key = key;
+    });
   }
-}
 
-// --- MAIN APP ---
-class App {
-  private store: Store;
-  private currentPage: 'clients' | 'sales' | 'expenses' | 'inventory' | 'creditors' | 'help' = 'clients';
-  private currentClientId: string | null = null;
-  private currentCreditorId: string | null = null;
-  private currentExpenseMonth: string = 'all'; // 'YYYY-MM' format or 'all'
-  private currentSaleMonth: string = 'all'; // 'YYYY-MM' format or 'all'
-  private currentClientFilter: 'all' | 'debt' | 'credit' = 'all';
-  private currentCreditorFilter: 'all' | 'debt' | 'credit' = 'all';
-  private appContent: HTMLElement;
-  private headerTitle: HTMLElement;
-  private modalContainer: HTMLElement;
+  // Turns the PIN lock off, storing every record unencrypted again. Throws if the PIN is wrong.
+  async disableLock(pin: string): Promise<void> {
+    const key = await unwrapDataKey(this.lockConfig!, pin);
+    await this.exclusive(async () => {
+      await this.rewriteAll((_, record) => openRecord(key, record), null);
+      this.lockConfig = null;
+      this.key = null;
+    });
+  }
 
-  constructor() {
-    this.store = new Store();
-    this.appContent = document.getElementById('app-content')!;
-    this.headerTitle = document.getElementById('header-title')!;
-    this.modalContainer = document.getElementById('modal-container')!;
-    
-    this.setupEventListeners();
-    this.render();
-    this.handleUrlActions(); // Handle actions from shortcuts
+  // Only the wrapped data key changes, in a single write, so an interrupted change leaves the old PIN working.
+  async changePin(currentPin: string, newPin: string): Promise<void> {
+    const key = await unwrapDataKey(this.lockConfig!, currentPin);
+    const config = await wrapDataKey(key, newPin, this.lockConfig!.autoLockMinutes);
+    await this.setMeta('lock', config);
+    this.lockConfig = config;
   }
 
-  private handleUrlActions(): void {
-    const urlParams = new URLSearchParams(window.location.search);
-    const action = urlParams.get('action');
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    const config = { ...this.lockConfig!, autoLockMinutes: minutes };
+    await this.setMeta('lock', config);
+    this.lockConfig = config;
+  }
 
-    if (!action) return;
+  // Deletes the whole database. The only way out of a forgotten PIN.
+  async destroy(): Promise<void> {
+    this.database.close();
+    this.db = null;
+    await requestToPromise(indexedDB.deleteDatabase(DB_NAME));
+  }
 
-    // Use a short delay to ensure the UI is ready before opening a modal
-    setTimeout(() => {
-        switch (action) {
-            case 'new_client':
-                this.renderClientForm();
-                break;
-            case 'new_sale':
-                this.renderSaleForm();
-                break;
-            case 'new_expense':
-                this.renderExpenseForm();
-                break;
-            case 'new_product':
-                this.renderProductForm();
-                break;
-        }
-        // Clean the URL so the action doesn't re-trigger on reload
-        window.history.replaceState({}, document.title, window.location.pathname);
-    }, 100);
+  // Reads every stored record, converts it outside of any transaction (crypto is asynchronous), then
+  // writes everything back together with the lock setting in one transaction. Run it inside exclusive().
+  private async rewriteAll(convert: (storeName: string, record: object) => Promise<object>, lock: LockConfig | null): Promise<void> {
+    const storeNames = [...ENTITY_TYPES, AUDIT_STORE, BACKUP_STORE, TOMBSTONE_STORE, META_STORE];
+    const readTx = this.database.transaction(storeNames, 'readonly');
+    const stored = await Promise.all(storeNames.map(name => requestToPromise<object[]>(readTx.objectStore(name).getAll())));
+    const isLock = (name: string, record: object) => name === META_STORE && (record as Record<string, unknown>).key === 'lock';
+    const converted = await Promise.all(storeNames.map((name, i) =>
+      Promise.all(stored[i].filter(record => !isLock(name, record)).map(record => convert(name, record)))));
+
+    const tx = this.database.transaction(storeNames, 'readwrite');
+    const done = transactionDone(tx);
+    storeNames.forEach((name, i) => converted[i].forEach(record => tx.objectStore(name).put(record)));
+    if (lock) tx.objectStore(META_STORE).put({ key: 'lock', value: lock });
+    else tx.objectStore(META_STORE).delete('lock');
+    await done;
   }
 
-  private setupEventListeners(): void {
-    document.getElementById('bottom-nav')?.addEventListener('click', (e) => {
-      const target = (e.target as HTMLElement).closest('.nav-btn');
-      if (target) {
-        const page = (target as HTMLElement).dataset.page as any;
-        if (this.currentPage !== page) {
-            this.currentClientId = null;
-            this.currentCreditorId = null;
-            this.currentPage = page;
-            this.render();
-        }
-      }
+  // Runs store operations one at a time. Each one reads, seals and writes in separate transactions, so
+  // two that overlap could otherwise both pass the same stock check or write over each other's changes.
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Runs `operation` inside exclusive() and commits the writes it queued on `batch`.
+  private transact<T>(operation: (batch: Batch) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const batch = new Batch();
+      const result = await operation(batch);
+      await this.commit(batch);
+      return result;
     });
+  }
 
-    this.appContent.addEventListener('click', (e) => {
-      const target = e.target as HTMLElement;
-      const clientCard = target.closest('.client-card');
-      const creditorCard = target.closest('.creditor-card');
-      const fab = target.closest('.fab');
-      const editBtn = target.closest('[data-action="edit"]');
-      const deleteBtn = target.closest('[data-action="delete"]');
-      
-      if (clientCard) {
-        this.currentClientId = clientCard.getAttribute('data-client-id');
-        this.render();
-      }
-      if (creditorCard) {
-        this.currentCreditorId = creditorCard.getAttribute('data-creditor-id');
-        this.render();
-      }
-      if (fab) {
-        this.handleFabClick();
-      }
-      if(editBtn) {
-        this.handleEditClick(editBtn as HTMLElement);
-      }
-      if (deleteBtn) {
-        this.handleDeleteClick(deleteBtn as HTMLElement);
-      }
+  // Reads one record in its own transaction and, with the PIN lock on, opens it once that has finished.
+  private async fetch<T>(storeName: string, key: string): Promise<T | undefined> {
+    const tx = this.database.transaction(storeName, 'readonly');
+    const record = await requestToPromise<unknown>(tx.objectStore(storeName).get(key));
+    return record === undefined ? undefined : openRecord<T>(this.key, record);
+  }
+
+  // Reads a whole store or, with `index`, the records whose indexed field equals `query`.
+  private async fetchAll<T>(storeName: string, index?: string, query?: IDBValidKey): Promise<T[]> {
+    const tx = this.database.transaction(storeName, 'readonly');
+    const objectStore = tx.objectStore(storeName);
+    const records = await requestToPromise<unknown[]>(index ? objectStore.index(index).getAll(query) : objectStore.getAll());
+    return Promise.all(records.map(record => openRecord<T>(this.key, record)));
+  }
+
+  // fetch() as seen by an operation with pending writes in `batch`.
+  private async read<T>(batch: Batch, storeName: string, key: string): Promise<T | undefined> {
+    const pending = batch.records.get(storeName)?.get(key);
+    if (pending !== undefined) return (pending ?? undefined) as T | undefined;
+    return batch.cleared.has(storeName) ? undefined : this.fetch<T>(storeName, key);
+  }
+
+  // fetchAll() as seen by an operation with pending writes in `batch`.
+  private async readAll<T>(batch: Batch, storeName: string, index?: string, query?: IDBValidKey): Promise<T[]> {
+    const stored = batch.cleared.has(storeName) ? [] : await this.fetchAll<T>(storeName, index, query);
+    const pending = batch.records.get(storeName);
+    if (!pending) return stored;
+    const keyPath = keyPathOf(storeName);
+    const matches = (record: object) => !index || (record as Record<string, unknown>)[index] === query;
+    const written = [...pending.values()].filter((record): record is object => record !== null && matches(record));
+    return [...stored.filter(record => !pending.has(String((record as Record<string, unknown>)[keyPath]))), ...written as T[]];
+  }
+
+  // Seals the batch's records when the PIN lock is on, then applies all of its writes in one transaction.
+  private async commit(batch: Batch): Promise<void> {
+    const storeNames = batch.storeNames;
+    if (storeNames.length === 0) return;
+    const key = this.key;
+    if (this.lockConfig && !key) throw new Error('Los datos están bloqueados.');
+    const seal = (storeName: string, record: object) => key ? sealRecord(key, storeName, record) : Promise.resolve(record);
+    const writes = await Promise.all(storeNames.map(async storeName => {
+      const records = [...(batch.records.get(storeName) ?? [])];
+      const puts = [...records.map(([, record]) => record), ...(batch.added.get(storeName) ?? [])]
+        .filter((record): record is object => record !== null);
+      const deletes = records.filter(([, record]) => record === null).map(([id]) => id);
+      return { storeName, puts: await Promise.all(puts.map(record => seal(storeName, record))), deletes };
+    }));
+
+    const tx = this.database.transaction(storeNames, 'readwrite');
+    const done = transactionDone(tx);
+    writes.forEach(({ storeName, puts, deletes }) => {
+      const objectStore = tx.objectStore(storeName);
+      if (batch.cleared.has(storeName)) objectStore.clear();
+      deletes.forEach(id => objectStore.delete(id));
+      puts.forEach(record => objectStore.put(record));
     });
+    await done;
   }
 
-  private handleFabClick(): void {
-    if (this.currentClientId) {
-      this.renderTransactionForm();
-    } else if (this.currentCreditorId) {
-        this.renderCreditorTransactionForm();
-    } else {
-      switch (this.currentPage) {
-        case 'clients': this.renderClientForm(); break;
-        case 'sales': this.renderSaleForm(); break;
-        case 'expenses': this.renderExpenseForm(); break;
-        case 'inventory': this.renderProductForm(); break;
-        case 'creditors': this.renderCreditorForm(); break;
+  // Copies every localStorage collection into IndexedDB in a single transaction.
+  // The localStorage keys are only removed once the copy has been committed and verified.
+  private async migrateFromLocalStorage(): Promise<void> {
+    const legacy = ENTITY_TYPES
+      .map(type => ({ type, raw: localStorage.getItem(type) }))
+      .filter((entry): entry is { type: EntityType; raw: string } => entry.raw !== null);
+    if (legacy.length === 0) return;
+
+    const parsed = legacy.map(({ type, raw }) => ({ type, items: JSON.parse(raw) as Entity[] }));
+    await this.transact(async batch => {
+      parsed.forEach(({ type, items }) => {
+        items.forEach(item => batch.put(type, item.id ? item : { ...item, id: generateId() }));
+      });
+    });
+
+    for (const { type, items } of parsed) {
+      const ids = new Set(items.map(i => i.id).filter(Boolean));
+      const stored = await this.get(type);
+      const storedIds = new Set(stored.map(i => i.id));
+      if ([...ids].some(id => !storedIds.has(id))) {
+        throw new Error(`La migración de "${type}" no se completó. Los datos originales se conservan.`);
       }
     }
+    parsed.forEach(({ type }) => localStorage.removeItem(type));
   }
 
-  private handleEditClick(element: HTMLElement): void {
-    const type = element.dataset.type as EntityType | 'transaction' | 'creditorTransaction';
-    const id = element.dataset.id!;
+  private async getMeta<T>(key: string): Promise<T | undefined> {
+    const entry = await this.fetch<{ key: string; value: T }>(META_STORE, key);
+    return entry?.value;
+  }
 
-    switch (type) {
-      case 'clients': this.renderClientForm(this.store.getClient(id)); break;
-      case 'transaction': this.renderTransactionForm(this.store.getTransaction(id)); break;
-      case 'sales': this.renderSaleForm(this.store.getSale(id)); break;
-      case 'expenses': this.renderExpenseForm(this.store.getExpense(id)); break;
-      case 'products': this.renderProductForm(this.store.getProduct(id)); break;
-      case 'creditors': this.renderCreditorForm(this.store.getCreditor(id)); break;
-      case 'creditorTransaction': this.renderCreditorTransactionForm(this.store.getCreditorTransaction(id)); break;
-    }
+  private async setMeta(key: string, value: unknown): Promise<void> {
+    return this.transact(async batch => {
+      batch.put(META_STORE, { key, value });
+    });
   }
 
-  private handleDeleteClick(element: HTMLElement): void {
-    const type = element.dataset.type as EntityType | 'transaction' | 'creditorTransaction';
-    const id = element.dataset.id!;
-    
-    const messages: { [key: string]: string } = {
-        default: '¿Estás seguro que quieres eliminar este elemento?',
-        clients: '¿Estás seguro? Se borrarán todas las transacciones del cliente.',
-        creditors: '¿Estás seguro? Se borrarán todas las transacciones del acreedor.',
-        products: '¿Estás seguro que quieres eliminar este producto del inventario?',
-    };
-    
-    const message = messages[type] || messages.default;
-    
-    if (confirm(message)) {
-      let storeType: EntityType;
-      if (type === 'transaction') storeType = 'transactions';
-      else if (type === 'creditorTransaction') storeType = 'creditorTransactions';
-      else storeType = type;
-      
-      this.store.delete(storeType, id);
-      this.render();
+  getSchemaVersion = async (): Promise<number> => (await this.getMeta<number>('schemaVersion')) ?? 0;
+  getRemindersEnabled = async (): Promise<boolean> => (await this.getMeta<boolean>('remindersEnabled')) ?? false;
+  setRemindersEnabled = (enabled: boolean) => this.setMeta('remindersEnabled', enabled);
+  // Stored settings are merged over the defaults, so settings added later get a value.
+  getSettings = async (): Promise<Settings> => ({ ...DEFAULT_SETTINGS, ...(await this.getMeta<Partial<Settings>>('settings')) });
+  saveSettings = (settings: Settings) => this.setMeta('settings', settings);
+  // Reminders for the coming days. The service worker shows them from here when the app is closed.
+  saveReminderQueue = (reminders: Reminder[]) => this.setMeta('reminderQueue', reminders);
+  getMigrationLog = async (): Promise<MigrationLogEntry[]> => (await this.getMeta<MigrationLogEntry[]>('migrationLog')) ?? [];
+
+  getMigrationBackups = async (): Promise<MigrationBackup[]> => {
+    const backups = await this.fetchAll<MigrationBackup>(BACKUP_STORE);
+    return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Applies pending migration steps one at a time. Before each step a snapshot of the data is saved;
+  // the migrated data, new version and log entry are then committed together in one transaction.
+  private async runMigrations(): Promise<void> {
+    let version = await this.getSchemaVersion();
+    const log = await this.getMigrationLog();
+
+    for (const migration of MIGRATIONS.filter(m => m.version > version)) {
+      const data = await this.exportAll();
+      const isEmpty = ENTITY_TYPES.every(type => data[type].length === 0);
+      if (!isEmpty) await this.saveMigrationBackup(data, version, `Antes de: ${migration.description}`);
+
+      const changes = isEmpty ? [] : migration.migrate(data);
+      const entry = { version: migration.version, description: migration.description, ranAt: new Date().toISOString(), changes };
+      log.push(entry);
+
+      const batch = new Batch();
+      if (changes.length > 0) ENTITY_TYPES.forEach(type => data[type].forEach(item => batch.put(type, item)));
+      batch.put(META_STORE, { key: 'schemaVersion', value: migration.version });
+      batch.put(META_STORE, { key: 'migrationLog', value: log });
+      await this.commit(batch);
+      version = migration.version;
     }
   }
 
-  private updateActiveNav(): void {
-    document.querySelectorAll('.nav-btn').forEach(btn => {
-      btn.classList.toggle('active', btn.getAttribute('data-page') === this.currentPage);
+  private async saveMigrationBackup(data: DataSet, schemaVersion: number, reason: string): Promise<void> {
+    const backups = await this.getMigrationBackups();
+    return this.transact(async batch => {
+      batch.put(BACKUP_STORE, { id: generateId(), createdAt: new Date().toISOString(), schemaVersion, reason, data });
+      backups.slice(MAX_MIGRATION_BACKUPS - 1).forEach(b => batch.delete(BACKUP_STORE, b.id));
     });
   }
 
-  private render(): void {
-    this.updateActiveNav();
-    if (this.currentClientId) {
-      this.renderClientDetailPage(this.currentClientId);
-    } else if (this.currentCreditorId) {
-        this.renderCreditorDetailPage(this.currentCreditorId);
-    } else {
-      switch (this.currentPage) {
-        case 'clients': this.renderClientsPage(); break;
-        case 'sales': this.renderSalesPage(); break;
-        case 'expenses': this.renderExpensesPage(); break;
-        case 'inventory': this.renderInventoryPage(); break;
-        case 'creditors': this.renderCreditorsPage(); break;
-        case 'help': this.renderHelpPage(); break;
-      }
-    }
+  // The read methods below skip records that are in the recycle bin.
+  private async get<T extends Entity>(type: EntityType): Promise<T[]> {
+    const items = await this.fetchAll<T>(type);
+    return items.filter(item => !item.deletedAt);
   }
 
-  // --- PAGE RENDERERS ---
+  private async getOne<T extends Entity>(type: EntityType, id: string): Promise<T | undefined> {
+    const item = await this.fetch<T>(type, id);
+    return item && !item.deletedAt ? item : undefined;
+  }
 
-  private renderClientsPage(): void {
-    this.headerTitle.textContent = 'Clientes';
-    const clients = this.store.getClients();
-    const totalDebt = this.store.getTotalClientDebt();
-    const formattedTotalDebt = totalDebt.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+  private async getByIndex<T extends Entity>(type: EntityType, index: string, value: string): Promise<T[]> {
+    const items = await this.fetchAll<T>(type, index, value);
+    return items.filter(item => !item.deletedAt);
+  }
 
-    const filteredClients = clients.filter(client => {
-        if (this.currentClientFilter === 'all') return true;
-        const balance = this.store.getClientBalance(client.id);
-        if (this.currentClientFilter === 'debt') return balance > 0;
-        if (this.currentClientFilter === 'credit') return balance < 0;
-        return false;
+  // Appends an entry to the audit log. Queued on the batch of the operation that made the change.
+  private writeAudit(batch: Batch, type: EntityType, action: AuditAction, before?: Entity, after?: Entity): void {
+    const record = (after || before)!;
+    const entry: AuditEntry = {
+      entityType: type, entityId: record.id, ownerId: auditOwnerId(type, record), action,
+      before: before ?? null, after: after ?? null, timestamp: new Date().toISOString(), minorUnits: true,
+    };
+    batch.put(AUDIT_STORE, entry);
+  }
+
+  // Marks a record as changed by a user on this device now. Derived updates (stock recomputation),
+  // migrations and imports keep the record's previous stamp.
+  private stamp<T extends object>(record: T): T {
+    return Object.assign(record, { updatedAt: new Date().toISOString(), updatedBy: this.deviceId });
+  }
+
+  // Permanently deletes a record, leaving a tombstone so sync deletes it on the other devices too.
+  private purgeRecord(batch: Batch, type: EntityType, id: string): void {
+    batch.delete(type, id);
+    const tombstone: Tombstone = { id, type, deletedAt: new Date().toISOString(), deviceId: this.deviceId };
+    batch.put(TOMBSTONE_STORE, tombstone);
+  }
+
+  // Generic save method for all types
+  async save<T extends Entity & { id: string }>(type: EntityType, item: Omit<T, 'id'> & { id?: string }): Promise<T> {
+    if (!item.id) item.id = generateId();
+    this.stamp(item);
+    return this.transact(async batch => {
+      const before = await this.read<Entity>(batch, type, item.id);
+      batch.put(type, item);
+      this.writeAudit(batch, type, before ? 'update' : 'create', before, item as T);
+      return item as T;
     });
+  }
 
-    let content = `
-      <select id="client-filter" class="month-select">
-        <option value="all" ${this.currentClientFilter === 'all' ? 'selected' : ''}>Mostrar Todos</option>
-        <option value="debt" ${this.currentClientFilter === 'debt' ? 'selected' : ''}>Con Deuda</option>
-        <option value="credit" ${this.currentClientFilter === 'credit' ? 'selected' : ''}>Con Saldo a Favor</option>
-      </select>
-      <div class="summary-card">
-        <span>Deuda Total de Clientes</span>
-        <span class="total-debt">${formattedTotalDebt}</span>
-      </div>
-      <div class="item-list">`;
-    
-    if (filteredClients.length === 0) {
-      content += `
-        <div class="empty-state">
-          <i class="fas fa-users-slash"></i>
-          <p>${clients.length > 0 ? 'No hay clientes que coincidan con el filtro.' : 'No hay clientes todavía.'}</p>
-          ${clients.length > 0 ? '' : "<p>Toca el botón '+' para agregar uno.</p>"}
-        </div>`;
-    } else {
-        filteredClients.forEach(client => {
-            const balance = this.store.getClientBalance(client.id);
-            const balanceClass = balance > 0 ? 'negative' : balance < 0 ? 'positive' : '';
-            const formattedBalance = balance.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card client-card" data-client-id="${client.id}">
-                <div class="card-header">
-                <span class="card-title">${client.name}</span>
-                <span class="card-balance ${balanceClass}">${formattedBalance}</span>
-                </div>
-                <div class="card-body">${client.phone}</div>
-            </div>`;
-        });
+  // Sets each product's quantity to the sum of its active stock movements, and its cost to the
+  // weighted average of the costed incoming movements, replayed in date order.
+  // Reads and writes through the batch of the operation that changed the movements.
+  private async recomputeStock(batch: Batch, productIds: Iterable<string>): Promise<void> {
+    for (const productId of new Set(productIds)) {
+      const product = await this.read<Product>(batch, 'products', productId);
+      if (!product) continue;
+      const movements = (await this.readAll<StockMovement>(batch, 'stockMovements', 'productId', productId))
+        .filter(m => !m.deletedAt)
+        .sort((a, b) => a.date.localeCompare(b.date) || (a.kind === 'initial' ? -1 : b.kind === 'initial' ? 1 : 0));
+
+      let quantity = 0;
+      let cost: number | undefined;
+      movements.forEach(m => {
+        if (m.quantity > 0 && m.unitCost !== undefined) {
+          const onHand = Math.max(quantity, 0);
+          cost = ((cost ?? m.unitCost) * onHand + m.unitCost * m.quantity) / (onHand + m.quantity);
+        }
+        quantity += m.quantity;
+      });
+      if (cost !== undefined) cost = Math.round(cost);
+      if (product.quantity === quantity && product.cost === cost) continue;
+      const updated = { ...product, quantity, cost };
+      batch.put('products', updated);
+      this.writeAudit(batch, 'products', 'update', product, updated);
     }
-    content += '</div>';
-    
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Cliente"><i class="fas fa-plus"></i></button>';
-    
-    document.getElementById('client-filter')?.addEventListener('change', (e) => {
-        this.currentClientFilter = (e.target as HTMLSelectElement).value as any;
-        this.render();
-    });
   }
 
-  private renderClientDetailPage(clientId: string): void {
-    const client = this.store.getClient(clientId);
-    if (!client) { this.currentClientId = null; this.render(); return; }
+  // Saves a record that moves stock (a sale, a client charge or a creditor purchase) together with
+  // its stock movements, replacing any it had before, so editing the record adjusts the stock.
+  // `related` records (e.g. the orders a purchase received) are saved in the same transaction.
+  // If any product would end up below zero nothing is saved and the error lists the products.
+  async saveWithStockMovements<T extends Entity>(
+    type: EntityType,
+    record: Omit<T, 'id'> & { id?: string; date: string },
+    movements: { productId: string; quantity: number; kind: StockMovementKind; unitCost?: number }[],
+    related: { type: EntityType; item: Entity }[] = [],
+  ): Promise<T> {
+    if (!record.id) record.id = generateId();
+    this.stamp(record);
+    return this.transact(async batch => {
+      const previous = (await this.readAll<StockMovement>(batch, 'stockMovements', 'sourceId', record.id))
+        .filter(m => !m.deletedAt);
+      const sumFor = (list: { productId: string; quantity: number }[], productId: string) =>
+        list.filter(m => m.productId === productId).reduce((sum, m) => sum + m.quantity, 0);
 
-    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>${client.name}</span>`;
-    document.getElementById('back-btn')?.addEventListener('click', () => {
-        this.currentClientId = null;
-        this.render();
+      const shortages: string[] = [];
+      for (const productId of new Set([...previous, ...movements].map(m => m.productId))) {
+        const product = await this.read<Product>(batch, 'products', productId);
+        const oldQuantity = sumFor(previous, productId);
+        const newQuantity = sumFor(movements, productId);
+        if (!product || product.deletedAt) {
+          if (newQuantity !== 0) shortages.push('un producto que ya no existe');
+          continue;
+        }
+        const available = product.quantity - oldQuantity;
+        if (newQuantity < oldQuantity && available + newQuantity < 0) {
+          shortages.push(newQuantity < 0
+            ? `${product.name} (disponible: ${available}, pedido: ${-newQuantity})`
+            : `${product.name} (el stock quedaría en ${available + newQuantity})`);
+        }
+      }
+      if (shortages.length > 0) {
+        throw new Error(`No hay suficiente stock para: ${shortages.join(', ')}.`);
+      }
+
+      previous.forEach(m => {
+        this.purgeRecord(batch, 'stockMovements', m.id);
+        this.writeAudit(batch, 'stockMovements', 'purge', m);
+      });
+      movements.forEach(m => {
+        const movement: StockMovement = this.stamp({ id: generateId(), date: record.date, sourceType: type, sourceId: record.id!, ...m });
+        batch.put('stockMovements', movement);
+        this.writeAudit(batch, 'stockMovements', 'create', undefined, movement);
+      });
+      const before = await this.read<Entity>(batch, type, record.id);
+      batch.put(type, record);
+      this.writeAudit(batch, type, before ? 'update' : 'create', before, record as unknown as T);
+      for (const { type: relatedType, item } of related) {
+        const relatedBefore = await this.read<Entity>(batch, relatedType, item.id);
+        batch.put(relatedType, this.stamp(item));
+        this.writeAudit(batch, relatedType, relatedBefore ? 'update' : 'create', relatedBefore, item);
+      }
+      await this.recomputeStock(batch, [...previous, ...movements].map(m => m.productId));
+      return record as unknown as T;
     });
+  }
 
-    const transactions = this.store.getTransactionsForClient(clientId);
-    const balance = this.store.getClientBalance(clientId);
-    const balanceClass = balance > 0 ? 'negative' : balance < 0 ? 'positive' : '';
-    const formattedBalance = balance.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+  // Saves a sale or client charge, deducting stock for every line item.
+  async saveSaleWithItems<T extends Sale | Transaction>(type: 'sales' | 'transactions', record: Omit<T, 'id'> & { id?: string }, related: { type: EntityType; item: Entity }[] = []): Promise<T> {
+    const movements = (record.items || []).map(item => ({ productId: item.productId, quantity: -item.quantity, kind: 'sale' as const }));
+    return this.saveWithStockMovements<T>(type, record, movements, related);
+  }
 
-    let content = `
-      <div style="margin-bottom: 20px;">
-        <h3>Saldo Total: <span class="${balanceClass}">${formattedBalance}</span></h3>
-        <p>Teléfono: ${client.phone}</p>
-        <div class="client-actions">
-            <button class="btn btn-secondary" data-action="edit" data-type="clients" data-id="${client.id}">Editar Cliente</button>
-            <button class="btn btn-danger" data-action="delete" data-type="clients" data-id="${client.id}">Eliminar Cliente</button>
-        </div>
-      </div>
-      <h4>Transacciones</h4>
-      <div class="item-list">`;
+  // Records a manual movement (initial count, return or adjustment). Rejects it if the stock would go negative.
+  async addStockMovement(movement: Omit<StockMovement, 'id'>): Promise<StockMovement> {
+    const record: StockMovement = this.stamp({ id: generateId(), ...movement });
+    return this.transact(async batch => {
+      const product = await this.read<Product>(batch, 'products', record.productId);
+      if (!product || product.quantity + record.quantity < 0) {
+        throw new Error(product ? `El stock de ${product.name} quedaría en ${product.quantity + record.quantity}.` : 'El producto ya no existe.');
+      }
+      batch.put('stockMovements', record);
+      this.writeAudit(batch, 'stockMovements', 'create', undefined, record);
+      await this.recomputeStock(batch, [record.productId]);
+      return record;
+    });
+  }
 
-    if (transactions.length === 0) {
-        content += `<div class="empty-state"><p>No hay transacciones.</p></div>`;
-    } else {
-        transactions.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(t => {
-            const amountClass = t.amount >= 0 ? 'positive' : 'negative';
-            const formattedAmount = t.amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card">
-                <div class="card-header">
-                    <span class="card-title">${new Date(t.date).toLocaleDateString('es-CO')}</span>
-                    <div>
-                        <span class="card-balance ${amountClass}">${formattedAmount}</span>
-                        <button class="icon-btn" data-action="edit" data-type="transaction" data-id="${t.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
-                        <button class="icon-btn icon-btn-delete" data-action="delete" data-type="transaction" data-id="${t.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
-                    </div>
-                </div>
-                <div class="card-body">${t.description}</div>
-            </div>`;
-        });
-    }
+  // Saves a product's details. Its quantity and cost are never taken from `product`: new products start
+  // with an 'initial' movement of `initial.quantity`, existing ones keep what their movements give.
+  // `initial.unitCost` sets the cost of the opening stock; when editing, it updates the initial movements.
+  async saveProduct(product: Omit<Product, 'id' | 'quantity' | 'cost'> & { id?: string }, initial: { quantity?: number; unitCost?: number } = {}): Promise<Product> {
+    return this.transact(async batch => {
+      const before = product.id ? await this.read<Product>(batch, 'products', product.id) : undefined;
+      const record: Product = this.stamp({ ...product, id: product.id || generateId(), quantity: before?.quantity ?? 0, cost: before?.cost });
+      batch.put('products', record);
+      this.writeAudit(batch, 'products', before ? 'update' : 'create', before, record);
 
-    content += '</div>'
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Transacción"><i class="fas fa-plus"></i></button>';
+      if (!before && initial.quantity) {
+        const movement: StockMovement = this.stamp({
+          id: generateId(), productId: record.id, date: new Date().toISOString().split('T')[0],
+          quantity: initial.quantity, kind: 'initial', unitCost: initial.unitCost,
+        });
+        batch.put('stockMovements', movement);
+        this.writeAudit(batch, 'stockMovements', 'create', undefined, movement);
+      } else if (before && initial.unitCost !== undefined) {
+        const movements = await this.readAll<StockMovement>(batch, 'stockMovements', 'productId', record.id);
+        movements.filter(m => m.kind === 'initial' && !m.deletedAt && m.unitCost !== initial.unitCost).forEach(m => {
+          const updated = this.stamp({ ...m, unitCost: initial.unitCost });
+          batch.put('stockMovements', updated);
+          this.writeAudit(batch, 'stockMovements', 'update', m, updated);
+        });
+      }
+      await this.recomputeStock(batch, [record.id]);
+      return (await this.getProduct(record.id)) || record;
+    });
   }
 
-  private renderSalesPage(): void {
-    this.headerTitle.textContent = 'Ventas Generales';
-    const sales = this.store.getSales();
-    const months = [...new Set(sales.map(s => s.date.substring(0, 7)))].sort().reverse();
-    if (this.currentSaleMonth !== 'all' && !months.includes(this.currentSaleMonth)) {
-        this.currentSaleMonth = 'all';
-    }
-    const filteredSales = this.currentSaleMonth === 'all' 
-      ? sales 
-      : sales.filter(s => s.date.startsWith(this.currentSaleMonth));
-    const totalSales = filteredSales.reduce((sum, s) => sum + s.amount, 0);
-    const formattedTotalSales = totalSales.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-    let monthOptions = '<option value="all">Todos los Meses</option>';
-    months.forEach(month => {
-        const date = new Date(month + '-02');
-        const monthName = date.toLocaleString('es-CO', { month: 'long', year: 'numeric' });
-        monthOptions += `<option value="${month}" ${this.currentSaleMonth === month ? 'selected' : ''}>${monthName.charAt(0).toUpperCase() + monthName.slice(1)}</option>`;
-    });
+  // Moves a record, and its children, to the recycle bin. Returns the deletion id used to
+  // restore or purge them together, and how many children went along.
+  async delete(type: EntityType, id: string): Promise<{ deletionId: string; children: number }> {
+    const deletionId = generateId();
+    const deletedAt = new Date().toISOString();
+    const cascade = CASCADE_CHILDREN[type];
+    return this.transact(async batch => {
+      const item = await this.read<Entity>(batch, type, id);
+      if (item && !item.deletedAt) {
+        const deleted = this.stamp({ ...item, deletedAt, deletionId });
+        batch.put(type, deleted);
+        this.writeAudit(batch, type, 'delete', item, deleted);
+      }
 
-    let content = `
-      <select id="month-filter-sales" class="month-select">${monthOptions}</select>
-      <div class="summary-card">
-          <span>Total Ventas (Selección)</span>
-          <span class="card-balance positive">${formattedTotalSales}</span>
-      </div>
-      <div class="item-list">`;
+      let children = 0;
+      const deletedIds = [id];
+      if (cascade) {
+        const related = await this.readAll<Entity>(batch, cascade.type, cascade.index, id);
+        related.filter(child => !child.deletedAt).forEach(child => {
+          const deleted = this.stamp({ ...child, deletedAt, deletionId });
+          batch.put(cascade.type, deleted);
+          this.writeAudit(batch, cascade.type, 'delete', child, deleted);
+          deletedIds.push(child.id);
+          children++;
+        });
+      }
 
-    if (filteredSales.length === 0) {
-      content += `<div class="empty-state"><p>No hay ventas registradas${this.currentSaleMonth !== 'all' ? ' para este mes' : ''}.</p></div>`;
-    } else {
-        filteredSales.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(sale => {
-            const formattedAmount = sale.amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card">
-                <div class="card-header">
-                    <span class="card-title">${new Date(sale.date).toLocaleDateString('es-CO')}</span>
-                    <div>
-                      <span class="card-balance positive">${formattedAmount}</span>
-                      <button class="icon-btn" data-action="edit" data-type="sales" data-id="${sale.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
-                      <button class="icon-btn icon-btn-delete" data-action="delete" data-type="sales" data-id="${sale.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
-                    </div>
-                </div>
-                <div class="card-body">${sale.description}</div>
-            </div>`;
+      // Stock movements caused by the deleted records go along with them, giving the stock back.
+      const affectedProducts: string[] = [];
+      for (const sourceId of deletedIds) {
+        const movements = await this.readAll<StockMovement>(batch, 'stockMovements', 'sourceId', sourceId);
+        movements.filter(m => !m.deletedAt).forEach(m => {
+          const deleted = this.stamp({ ...m, deletedAt, deletionId });
+          batch.put('stockMovements', deleted);
+          this.writeAudit(batch, 'stockMovements', 'delete', m, deleted);
+          affectedProducts.push(m.productId);
         });
-    }
-    content += '</div>';
+      }
+      await this.recomputeStock(batch, affectedProducts);
+      return { deletionId, children };
+    });
+  }
 
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Venta"><i class="fas fa-plus"></i></button>';
+  // Moves every expense of the `sourceIds` categories to `targetId` and sends those categories to the
+  // recycle bin, in one transaction. Expenses already in the recycle bin are moved too, so restoring
+  // them later finds their category. Returns how many active expenses were moved.
+  async mergeCategories(targetId: string, sourceIds: string[]): Promise<number> {
+    const sources = new Set(sourceIds.filter(id => id !== targetId));
+    return this.transact(async batch => {
+      let moved = 0;
+      for (const type of ['expenses', 'recurringTemplates'] as const) {
+        (await this.readAll<(Expense | RecurringTemplate)>(batch, type)).filter(r => sources.has(r.categoryId!)).forEach(record => {
+          const updated = this.stamp({ ...record, categoryId: targetId });
+          batch.put(type, updated);
+          this.writeAudit(batch, type, 'update', record, updated);
+          if (type === 'expenses' && !record.deletedAt) moved++;
+        });
+      }
 
-    document.getElementById('month-filter-sales')?.addEventListener('change', (e) => {
-        this.currentSaleMonth = (e.target as HTMLSelectElement).value;
-        this.render();
+      const deletedAt = new Date().toISOString();
+      for (const id of sources) {
+        const category = await this.read<ExpenseCategory>(batch, 'categories', id);
+        if (!category || category.deletedAt) continue;
+        const deleted = this.stamp({ ...category, deletedAt, deletionId: generateId() });
+        batch.put('categories', deleted);
+        this.writeAudit(batch, 'categories', 'delete', category, deleted);
+      }
+      return moved;
     });
   }
 
-  private renderExpensesPage(): void {
-    this.headerTitle.textContent = 'Gastos Personales';
-    const expenses = this.store.getExpenses();
-    const months = [...new Set(expenses.map(e => e.date.substring(0, 7)))].sort().reverse();
-    if (this.currentExpenseMonth !== 'all' && !months.includes(this.currentExpenseMonth)) {
-        this.currentExpenseMonth = 'all';
-    }
-    const filteredExpenses = this.currentExpenseMonth === 'all' 
-      ? expenses 
-      : expenses.filter(e => e.date.startsWith(this.currentExpenseMonth));
-    const totalExpenses = filteredExpenses.reduce((sum, e) => sum + e.amount, 0);
-    const formattedTotalExpenses = totalExpenses.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-    let monthOptions = '<option value="all">Todos los Meses</option>';
-    months.forEach(month => {
-        const date = new Date(month + '-02');
-        const monthName = date.toLocaleString('es-CO', { month: 'long', year: 'numeric' });
-        monthOptions += `<option value="${month}" ${this.currentExpenseMonth === month ? 'selected' : ''}>${monthName.charAt(0).toUpperCase() + monthName.slice(1)}</option>`;
+  // Saves what became of one occurrence of a recurring template: the records it created (none when it
+  // was skipped) and the template's new lastDate, in one transaction so an occurrence is never applied twice.
+  async saveRecurringOccurrence(templateId: string, date: string, records: { type: EntityType; item: Entity }[]): Promise<void> {
+    return this.transact(async batch => {
+      const template = await this.read<RecurringTemplate>(batch, 'recurringTemplates', templateId);
+      if (template) {
+        const updated = this.stamp({ ...template, lastDate: date });
+        batch.put('recurringTemplates', updated);
+        this.writeAudit(batch, 'recurringTemplates', 'update', template, updated);
+      }
+      records.forEach(({ type, item }) => {
+        batch.put(type, this.stamp(item));
+        this.writeAudit(batch, type, 'create', undefined, item);
+      });
     });
+  }
 
-    let content = `
-      <select id="month-filter" class="month-select">${monthOptions}</select>
-      <div class="summary-card">
-          <span>Total Gastos (Selección)</span>
-          <span class="total-expense">-${formattedTotalExpenses}</span>
-      </div>
-      <div class="item-list">`;
-    if (filteredExpenses.length === 0) {
-      content += `<div class="empty-state"><p>No hay gastos registrados${this.currentExpenseMonth !== 'all' ? ' para este mes' : ''}.</p></div>`;
-    } else {
-        filteredExpenses.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(expense => {
-            const formattedAmount = expense.amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card" style="border-left-color: var(--debt-color);">
-                <div class="card-header">
-                    <span class="card-title">${expense.category}</span>
-                    <div>
-                      <span class="card-balance negative">-${formattedAmount}</span>
-                      <button class="icon-btn" data-action="edit" data-type="expenses" data-id="${expense.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
-                      <button class="icon-btn icon-btn-delete" data-action="delete" data-type="expenses" data-id="${expense.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
-                    </div>
-                </div>
-                <div class="card-body">${expense.description} - ${new Date(expense.date).toLocaleDateString('es-CO')}</div>
-            </div>`;
-        });
-    }
-    content += '</div>';
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Gasto"><i class="fas fa-plus"></i></button>';
-    
-    document.getElementById('month-filter')?.addEventListener('change', (e) => {
-        this.currentExpenseMonth = (e.target as HTMLSelectElement).value;
-        this.render();
-    });
+  // Every record in the recycle bin, grouped by the delete operation that put it there.
+  async getTrash(): Promise<TrashEntry[]> {
+    const data = await this.exportAll();
+    const groups = new Map<string, { type: EntityType; item: Entity }[]>();
+    ENTITY_TYPES.forEach(type => data[type].filter(item => item.deletedAt).forEach(item => {
+      const key = item.deletionId || item.id;
+      groups.set(key, [...(groups.get(key) || []), { type, item }]);
+    }));
+
+    return [...groups.entries()].map(([deletionId, records]) => {
+      const root = records.find(r => CASCADE_CHILDREN[r.type]) || records.find(r => r.type !== 'stockMovements') || records[0];
+      return {
+        deletionId, deletedAt: root.item.deletedAt!, type: root.type, item: root.item,
+        children: records.filter(r => r !== root && r.type !== 'stockMovements'),
+      };
+    }).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
   }
 
-  private renderInventoryPage(): void {
-    this.headerTitle.textContent = 'Inventario';
-    const products = this.store.getProducts();
-    let content = '<div class="item-list">';
-    if (products.length === 0) {
-        content += `<div class="empty-state"><i class="fas fa-box-open"></i><p>No hay productos en el inventario.</p></div>`;
-    } else {
-        products.forEach(p => {
-            const formattedPrice = p.price.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card">
-                <div class="card-header">
-                    <span class="card-title">${p.name} (x${p.quantity})</span>
-                    <div>
-                      <span class="card-balance positive">${formattedPrice}</span>
-                      <button class="icon-btn" data-action="edit" data-type="products" data-id="${p.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
-                      <button class="icon-btn icon-btn-delete" data-action="delete" data-type="products" data-id="${p.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
-                    </div>
-                </div>
-                <div class="card-body">${p.description}</div>
-            </div>`;
-        });
-    }
-    content += '</div>';
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Producto"><i class="fas fa-plus"></i></button>';
+  // Takes every record of a delete operation out of the recycle bin.
+  async restore(deletionId: string): Promise<void> {
+    await this.updateDeletionGroup(deletionId, 'restore');
   }
 
-  private renderCreditorsPage(): void {
-    this.headerTitle.textContent = 'Acreedores';
-    const creditors = this.store.getCreditors();
+  // Permanently removes every record of a delete operation.
+  async purge(deletionId: string): Promise<void> {
+    await this.updateDeletionGroup(deletionId, 'purge');
+  }
 
-    const filteredCreditors = creditors.filter(creditor => {
-        if (this.currentCreditorFilter === 'all') return true;
-        const balance = this.store.getCreditorBalance(creditor.id);
-        if (this.currentCreditorFilter === 'debt') return balance > 0; // I owe them
-        if (this.currentCreditorFilter === 'credit') return balance < 0; // They owe me
-        return false;
-    });
+  // Restoring brings back the group's stock movements, so like a new sale it is refused when a
+  // product would end up below zero.
+  private async updateDeletionGroup(deletionId: string, action: 'restore' | 'purge'): Promise<void> {
+    return this.transact(async batch => {
+      const group: { type: EntityType; item: Entity }[] = [];
+      for (const type of ENTITY_TYPES) {
+        const items = await this.readAll<Entity>(batch, type);
+        items.filter(item => item.deletedAt && (item.deletionId || item.id) === deletionId).forEach(item => group.push({ type, item }));
+      }
+      const movements = group.filter(({ type }) => type === 'stockMovements').map(({ item }) => item as StockMovement);
 
-    let content = `
-      <select id="creditor-filter" class="month-select">
-        <option value="all" ${this.currentCreditorFilter === 'all' ? 'selected' : ''}>Mostrar Todos</option>
-        <option value="debt" ${this.currentCreditorFilter === 'debt' ? 'selected' : ''}>Con Deuda</option>
-        <option value="credit" ${this.currentCreditorFilter === 'credit' ? 'selected' : ''}>Con Saldo a Favor</option>
-      </select>
-      <div class="item-list">`;
-     if (filteredCreditors.length === 0) {
-      content += `<div class="empty-state"><i class="fas fa-receipt"></i><p>${creditors.length > 0 ? 'No hay acreedores que coincidan con el filtro.' : 'No hay acreedores todavía.'}</p></div>`;
-    } else {
-        filteredCreditors.forEach(c => {
-            const balance = this.store.getCreditorBalance(c.id);
-            const balanceClass = balance > 0 ? 'negative' : 'positive';
-            const formattedBalance = balance.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card creditor-card" data-creditor-id="${c.id}">
-                <div class="card-header">
-                <span class="card-title">${c.name}</span>
-                <span class="card-balance ${balanceClass}">${formattedBalance}</span>
-                </div>
-                <div class="card-body">${c.phone}</div>
-            </div>`;
-        });
-    }
-    content += '</div>';
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Acreedor"><i class="fas fa-plus"></i></button>';
+      if (action === 'restore') {
+        const shortages: string[] = [];
+        for (const productId of new Set(movements.map(m => m.productId))) {
+          const product = await this.read<Product>(batch, 'products', productId);
+          const quantity = movements.filter(m => m.productId === productId).reduce((sum, m) => sum + m.quantity, 0);
+          if (product && !product.deletedAt && quantity < 0 && product.quantity + quantity < 0) {
+            shortages.push(`${product.name} (disponible: ${product.quantity}, pedido: ${-quantity})`);
+          }
+        }
+        if (shortages.length > 0) {
+          throw new Error(`No hay suficiente stock para: ${shortages.join(', ')}.`);
+        }
+      }
 
-    document.getElementById('creditor-filter')?.addEventListener('change', (e) => {
-        this.currentCreditorFilter = (e.target as HTMLSelectElement).value as any;
-        this.render();
+      group.forEach(({ type, item }) => {
+        if (action === 'restore') {
+          const { deletedAt, deletionId: _, ...restored } = item;
+          batch.put(type, this.stamp(restored));
+          this.writeAudit(batch, type, action, item, restored as Entity);
+        } else {
+          this.purgeRecord(batch, type, item.id);
+          this.writeAudit(batch, type, action, item);
+        }
+      });
+      await this.recomputeStock(batch, movements.map(m => m.productId));
     });
   }
 
-   private renderCreditorDetailPage(creditorId: string): void {
-    const creditor = this.store.getCreditor(creditorId);
-    if (!creditor) { this.currentCreditorId = null; this.render(); return; }
+  // Change history of a client or creditor and the records that belong to them, newest first.
+  async getAuditLogForOwner(ownerId: string): Promise<AuditEntry[]> {
+    const entries = await this.fetchAll<AuditEntry>(AUDIT_STORE, 'ownerId', ownerId);
+    return entries.sort((a, b) => b.seq! - a.seq!);
+  }
 
-    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>${creditor.name}</span>`;
-    document.getElementById('back-btn')?.addEventListener('click', () => {
-        this.currentCreditorId = null;
-        this.render();
+  // Reads every collection, keyed by entity type.
+  async exportAll(): Promise<DataSet> {
+    const results = await Promise.all(ENTITY_TYPES.map(type => this.fetchAll(type)));
+    return Object.fromEntries(ENTITY_TYPES.map((type, i) => [type, results[i]])) as DataSet;
+  }
+
+  // Writes a full data set in one transaction. 'replace' clears each collection first;
+  // 'merge' keeps existing records and overwrites those with the same id.
+  async importAll(data: DataSet, mode: 'replace' | 'merge'): Promise<void> {
+    return this.transact(async batch => {
+      for (const type of ENTITY_TYPES) {
+        const existing = new Map((await this.readAll<Entity>(batch, type)).map(item => [item.id, item]));
+        const incomingIds = new Set(data[type].map(item => item.id));
+        if (mode === 'replace') {
+          batch.delete(type);
+          existing.forEach(item => { if (!incomingIds.has(item.id)) this.writeAudit(batch, type, 'purge', item); });
+        }
+        data[type].forEach(item => {
+          batch.put(type, item);
+          this.writeAudit(batch, type, 'import', existing.get(item.id), item);
+        });
+      }
+      const products = await this.readAll<Product>(batch, 'products');
+      await this.recomputeStock(batch, products.map(p => p.id));
     });
+  }
 
-    const transactions = this.store.getTransactionsForCreditor(creditorId);
-    const balance = this.store.getCreditorBalance(creditorId);
-    const balanceClass = balance > 0 ? 'negative' : 'positive';
-    const formattedBalance = balance.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
+  getSyncStatus = async (): Promise<{ deviceId: string; lastExportAt?: string; lastImportAt?: string }> => ({
+    deviceId: this.deviceId,
+    lastExportAt: await this.getMeta<string>('lastExportAt'),
+    lastImportAt: await this.getMeta<string>('lastImportAt'),
+  });
+  getSyncConflicts = async (): Promise<SyncConflict[]> => (await this.getMeta<SyncConflict[]>('syncConflicts')) ?? [];
 
-    let content = `
-      <div style="margin-bottom: 20px;">
-        <h3>Saldo (Deuda): <span class="${balanceClass}">${formattedBalance}</span></h3>
-        <p>Teléfono: ${creditor.phone}</p>
+  // Collects the records and tombstones changed since the last confirmed export, or everything when
+  // `full` is set or nothing has been exported yet. Nothing is saved until confirmExport().
+  async exportChanges(full: boolean): Promise<ChangeSet> {
+    const exportedAt = new Date().toISOString();
+    const since = full ? null : (await this.getMeta<string>('lastExportAt')) ?? null;
+    const results = await Promise.all(ENTITY_TYPES.map(type => this.fetchAll<Entity>(type)));
+    const tombstones = await this.fetchAll<Tombstone>(TOMBSTONE_STORE);
+    const seen = (await this.getMeta<Record<string, string>>('syncSeenUntil')) ?? {};
+    const isNew = (timestamp?: string) => !since || (!!timestamp && timestamp > since);
+    return {
+      app: BACKUP_APP_ID, kind: CHANGE_SET_KIND, dataVersion: SCHEMA_VERSION, deviceId: this.deviceId, since, exportedAt, seen,
+      records: ENTITY_TYPES.flatMap((type, i) => (results[i] as Entity[]).filter(item => isNew(item.updatedAt)).map(item => ({ type, item }))),
+      tombstones: tombstones.filter(t => isNew(t.deletedAt)),
+    };
+  }
+
+  // Marks a change set as delivered, so the next export starts after it.
+  async confirmExport(exportedAt: string): Promise<void> {
+    await this.setMeta('lastExportAt', exportedAt);
+  }
+
+  // Merges a change set from the other device in one transaction. Records changed on both devices
+  // are left as they are here and saved for review with resolveConflict().
+  async importChanges(changeSet: ChangeSet): Promise<SyncResult> {
+    if (changeSet.deviceId === this.deviceId) throw new Error('Este archivo fue exportado desde este mismo teléfono.');
+    return this.transact(async batch => {
+      const seenUntil = (await this.getMeta<Record<string, string>>('syncSeenUntil')) ?? {};
+      const conflicts = await this.getSyncConflicts();
+      const results = await Promise.all(ENTITY_TYPES.map(type => this.readAll(batch, type)));
+      const local = Object.fromEntries(ENTITY_TYPES.map((type, i) => [type, results[i]])) as DataSet;
+      const tombstones = await this.readAll<Tombstone>(batch, TOMBSTONE_STORE);
+      const previous = seenUntil[changeSet.deviceId] ?? null;
+      const plan = planMerge(changeSet, local, tombstones, this.deviceId, previous);
+
+      const productIds = new Set<string>();
+      plan.writes.forEach(({ type, before, item }) => {
+        batch.put(type, item);
+        this.writeAudit(batch, type, 'sync', before, item);
+        stockProductIds(type, [before, item]).forEach(id => productIds.add(id));
+      });
+      plan.purges.forEach(({ type, item, tombstone }) => {
+        batch.delete(type, item.id);
+        batch.put(TOMBSTONE_STORE, tombstone);
+        this.writeAudit(batch, type, 'purge', item);
+        stockProductIds(type, [item]).forEach(id => productIds.add(id));
+      });
+      plan.tombstones.forEach(tombstone => batch.put(TOMBSTONE_STORE, tombstone));
+      await this.recomputeStock(batch, productIds);
+
+      // A conflict found earlier is gone once the other device's resolution arrives
+      const settled = new Set([...plan.conflicts, ...plan.writes.map(w => w.item), ...plan.purges.map(p => p.item)].map(record => record.id));
+      batch.put(META_STORE, { key: 'syncConflicts', value: [...conflicts.filter(c => !settled.has(c.id)), ...plan.conflicts] });
+      batch.put(META_STORE, { key: 'lastImportAt', value: new Date().toISOString() });
+      // Only a file that continues from the ones imported before covers everything up to its export
+      if ((!changeSet.since || (previous && changeSet.since <= previous)) && (!previous || changeSet.exportedAt > previous)) {
+        batch.put(META_STORE, { key: 'syncSeenUntil', value: { ...seenUntil, [changeSet.deviceId]: changeSet.exportedAt } });
+      }
+      return { written: plan.writes.length, purged: plan.purges.length, conflicts: plan.conflicts.length, skipped: plan.skipped };
+    });
+  }
+
+  // Settles a sync conflict by keeping this device's version or the other device's one. Either way
+  // the version kept and its stock movements are stamped as changed here, so the next change set
+  // carries the resolution to the other device.
+  async resolveConflict(id: string, keep: 'local' | 'incoming'): Promise<void> {
+    return this.transact(async batch => {
+      const conflicts = await this.getSyncConflicts();
+      const conflict = conflicts.find(c => c.id === id);
+      if (!conflict) return;
+      const { type, incoming, movements = [] } = conflict;
+      const current = await this.read<Entity>(batch, type, id);
+      const previous = STOCK_SOURCE_TYPES.includes(type) ? await this.readAll<StockMovement>(batch, 'stockMovements', 'sourceId', id) : [];
+      const purge = (purgedType: EntityType, item: Entity) => {
+        this.purgeRecord(batch, purgedType, item.id);
+        this.writeAudit(batch, purgedType, 'purge', item);
+      };
+      if (keep === 'local') {
+        if (current) {
+          batch.put(type, this.stamp(current));
+          previous.forEach(m => batch.put('stockMovements', this.stamp(m)));
+        }
+      } else if (incoming) {
+        const kept = this.stamp({ ...incoming });
+        batch.put(type, kept);
+        this.writeAudit(batch, type, 'sync', current, kept);
+        // Copies under new ids replace the movements here, like saving the record would
+        previous.forEach(m => purge('stockMovements', m));
+        movements.forEach(m => {
+          const movement = this.stamp({ ...m, id: generateId() });
+          batch.put('stockMovements', movement);
+          this.writeAudit(batch, 'stockMovements', 'sync', undefined, movement);
+        });
+      } else if (current) {
+        purge(type, current);
+        previous.forEach(m => purge('stockMovements', m));
+      }
+      await this.recomputeStock(batch, [
+        ...stockProductIds(type, [current, incoming ?? undefined]),
+        ...stockProductIds('stockMovements', [...previous, ...movements]),
+      ]);
+      batch.put(META_STORE, { key: 'syncConflicts', value: conflicts.filter(c => c !== conflict) });
+    });
+  }
+
+  getClients = () => this.get<Client>('clients');
+  getClient = (id: string) => this.getOne<Client>('clients', id);
+  getSales = () => this.get<Sale>('sales');
+  getSale = (id: string) => this.getOne<Sale>('sales', id);
+  getExpenses = () => this.get<Expense>('expenses');
+  getExpense = (id: string) => this.getOne<Expense>('expenses', id);
+  getCategories = () => this.get<ExpenseCategory>('categories');
+  getCategory = (id: string) => this.getOne<ExpenseCategory>('categories', id);
+  getRecurringTemplates = () => this.get<RecurringTemplate>('recurringTemplates');
+  getRecurringTemplate = (id: string) => this.getOne<RecurringTemplate>('recurringTemplates', id);
+  getTransactions = () => this.get<Transaction>('transactions');
+  getTransactionsForClient = (clientId: string) => this.getByIndex<Transaction>('transactions', 'clientId', clientId);
+  getTransaction = (id: string) => this.getOne<Transaction>('transactions', id);
+
+  getProducts = () => this.get<Product>('products');
+  getProduct = (id: string) => this.getOne<Product>('products', id);
+  getStockMovements = () => this.get<StockMovement>('stockMovements');
+  getStockMovementsForProduct = (productId: string) => this.getByIndex<StockMovement>('stockMovements', 'productId', productId);
+  getStockMovementsForSource = (sourceId: string) => this.getByIndex<StockMovement>('stockMovements', 'sourceId', sourceId);
+
+  getCreditors = () => this.get<Creditor>('creditors');
+  getCreditor = (id: string) => this.getOne<Creditor>('creditors', id);
+  getCreditorTransactions = () => this.get<CreditorTransaction>('creditorTransactions');
+  getTransactionsForCreditor = (creditorId: string) =>
+    this.getByIndex<CreditorTransaction>('creditorTransactions', 'creditorId', creditorId);
+  getCreditorTransaction = (id: string) => this.getOne<CreditorTransaction>('creditorTransactions', id);
+  getCampaigns = () => this.get<Campaign>('campaigns');
+  getCampaign = (id: string) => this.getOne<Campaign>('campaigns', id);
+  getOrders = () => this.get<Order>('orders');
+  getOrder = (id: string) => this.getOne<Order>('orders', id);
+  getOrdersForClient = (clientId: string) => this.getByIndex<Order>('orders', 'clientId', clientId);
+
+  getClientBalance = async (clientId: string): Promise<number> => {
+    const transactions = await this.getTransactionsForClient(clientId);
+    return sumMoney(transactions.map(t => t.amount));
+  }
+
+  getCreditorBalance = async (creditorId: string): Promise<number> => {
+    const transactions = await this.getTransactionsForCreditor(creditorId);
+    return sumMoney(transactions.map(t => t.amount));
+  }
+
+  // Balances for every client, computed from a single read of the transactions store.
+  getClientBalances = async (): Promise<Map<string, number>> => {
+    const balances = new Map<string, number>();
+    (await this.getTransactions()).forEach(t => balances.set(t.clientId, (balances.get(t.clientId) || 0) + t.amount));
+    return balances;
+  }
+
+  getCreditorBalances = async (): Promise<Map<string, number>> => {
+    const balances = new Map<string, number>();
+    (await this.getCreditorTransactions()).forEach(t => balances.set(t.creditorId, (balances.get(t.creditorId) || 0) + t.amount));
+    return balances;
+  }
+
+  // Number of overdue installments per client, for clients that have any.
+  getOverdueInstallmentCounts = async (today = new Date().toISOString().split('T')[0]): Promise<Map<string, number>> => {
+    const byClient = new Map<string, Transaction[]>();
+    (await this.getTransactions()).forEach(t => byClient.set(t.clientId, [...(byClient.get(t.clientId) || []), t]));
+    const counts = new Map<string, number>();
+    byClient.forEach((transactions, clientId) => {
+      const overdue = computeInstallmentStatus(transactions, today).filter(s => s.overdue).length;
+      if (overdue > 0) counts.set(clientId, overdue);
+    });
+    return counts;
+  }
+
+  getTotalClientDebt = async (): Promise<number> => {
+    const clients = await this.getClients();
+    const balances = await this.getClientBalances();
+    return clients.reduce((totalDebt, client) => {
+        const balance = balances.get(client.id) || 0;
+        return balance > 0 ? totalDebt + balance : totalDebt;
+    }, 0);
+  }
+}
+
+// --- BACKUP ---
+const BACKUP_APP_ID = 'gestion-finanzas';
+const BACKUP_SCHEMA_VERSION = 1;
+
+interface BackupFile {
+  app: string;
+  schemaVersion: number; // version of the file format
+  dataVersion: number; // SCHEMA_VERSION of the records in `data`
+  exportedAt: string;
+  data: DataSet;
+}
+
+const ENTITY_LABELS: Record<EntityType, string> = {
+  clients: 'Clientes',
+  transactions: 'Transacciones de clientes',
+  sales: 'Ventas generales',
+  expenses: 'Gastos',
+  categories: 'Categorías de gastos',
+  recurringTemplates: 'Gastos recurrentes',
+  products: 'Productos',
+  creditors: 'Acreedores',
+  creditorTransactions: 'Compras/Pagos a acreedores',
+  campaigns: 'Campañas',
+  orders: 'Pedidos',
+  stockMovements: 'Movimientos de inventario',
+};
+
+// Required fields of each entity and their expected type, used to validate imported data.
+const ENTITY_FIELDS: Record<EntityType, Record<string, 'string' | 'number'>> = {
+  clients: { id: 'string', name: 'string', phone: 'string' },
+  transactions: { id: 'string', clientId: 'string', date: 'string', amount: 'number', description: 'string' },
+  sales: { id: 'string', date: 'string', amount: 'number', description: 'string' },
+  expenses: { id: 'string', date: 'string', amount: 'number', categoryId: 'string', description: 'string' },
+  categories: { id: 'string', name: 'string', icon: 'string', color: 'string' },
+  recurringTemplates: { id: 'string', target: 'string', description: 'string', amount: 'number', frequency: 'string', startDate: 'string' },
+  products: { id: 'string', name: 'string', description: 'string', price: 'number', quantity: 'number' },
+  creditors: { id: 'string', name: 'string', phone: 'string' },
+  creditorTransactions: { id: 'string', creditorId: 'string', date: 'string', amount: 'number', description: 'string' },
+  campaigns: { id: 'string', number: 'number', creditorId: 'string', startDate: 'string', closeDate: 'string' },
+  orders: { id: 'string', clientId: 'string', date: 'string', status: 'string' },
+  stockMovements: { id: 'string', productId: 'string', date: 'string', quantity: 'number', kind: 'string' },
+};
+
+function createBackup(data: DataSet): BackupFile {
+  return { app: BACKUP_APP_ID, schemaVersion: BACKUP_SCHEMA_VERSION, dataVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), data };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEntityType(value: unknown): value is EntityType {
+  return (ENTITY_TYPES as unknown[]).includes(value);
+}
+
+// Name of the first required field of `type` that is missing or has the wrong type on `item`.
+function invalidField(type: EntityType, item: Record<string, unknown>): string | undefined {
+  return Object.entries(ENTITY_FIELDS[type]).find(([field, fieldType]) => {
+    const value = item[field];
+    return typeof value !== fieldType || (typeof value === 'number' && !isFinite(value));
+  })?.[0];
+}
+
+// Parses, upgrades and validates a backup file. Throws an Error describing the first problem found,
+// so nothing is written to the Store unless the whole file is well-formed.
+function parseBackup(text: string): BackupFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  if (!isObject(json) || json.app !== BACKUP_APP_ID) {
+    throw new Error('El archivo no es un respaldo de esta aplicación.');
+  }
+  if (typeof json.schemaVersion !== 'number' || json.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error('El respaldo fue creado con una versión más reciente de la aplicación.');
+  }
+  if (typeof json.exportedAt !== 'string' || isNaN(Date.parse(json.exportedAt))) {
+    throw new Error('El respaldo no tiene una fecha de exportación válida.');
+  }
+  const data = json.data;
+  if (!isObject(data)) {
+    throw new Error('El respaldo no contiene datos.');
+  }
+  const dataVersion = typeof json.dataVersion === 'number' ? json.dataVersion : 0;
+  if (dataVersion > SCHEMA_VERSION) {
+    throw new Error('El respaldo fue creado con una versión más reciente de la aplicación.');
+  }
+
+  ENTITY_TYPES.forEach(type => {
+    const items = data[type];
+    if (items === undefined) return; // collections added in later versions are created by the migrations
+    if (!Array.isArray(items)) {
+      throw new Error(`La colección "${ENTITY_LABELS[type]}" no es válida.`);
+    }
+    items.forEach((item: unknown, index) => {
+      if (!isObject(item)) {
+        throw new Error(`${ENTITY_LABELS[type]}, registro ${index + 1}: no es un objeto.`);
+      }
+    });
+  });
+  // Collections may still be missing here; the migrations create them.
+  migrateData(data as unknown as DataSet, dataVersion);
+
+  ENTITY_TYPES.forEach(type => {
+    const items = data[type];
+    if (!Array.isArray(items)) {
+      throw new Error(`Falta la colección "${ENTITY_LABELS[type]}".`);
+    }
+    const ids = new Set<unknown>();
+    items.forEach((item: Record<string, unknown>, index) => {
+      const field = invalidField(type, item);
+      if (field) {
+        throw new Error(`${ENTITY_LABELS[type]}, registro ${index + 1}: el campo "${field}" no es válido.`);
+      }
+      if (ids.has(item.id)) {
+        throw new Error(`${ENTITY_LABELS[type]}: el id "${item.id}" está repetido.`);
+      }
+      ids.add(item.id);
+    });
+  });
+
+  return { app: BACKUP_APP_ID, schemaVersion: json.schemaVersion, dataVersion: SCHEMA_VERSION, exportedAt: json.exportedAt, data: data as unknown as DataSet };
+}
+
+// --- SYNC ---
+// Parses and validates a change set file. Throws an Error describing the first problem found.
+function parseChangeSet(text: string): ChangeSet {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  if (!isObject(json) || json.app !== BACKUP_APP_ID || json.kind !== CHANGE_SET_KIND) {
+    throw new Error('El archivo no es un archivo de sincronización de esta aplicación.');
+  }
+  if (json.dataVersion !== SCHEMA_VERSION) {
+    throw new Error('Los dos teléfonos deben tener la misma versión de la aplicación. Actualiza ambos e inténtalo de nuevo.');
+  }
+  if (typeof json.deviceId !== 'string' || typeof json.exportedAt !== 'string' || isNaN(Date.parse(json.exportedAt))) {
+    throw new Error('El archivo no indica de qué teléfono viene.');
+  }
+  if (!isObject(json.seen) || !Object.values(json.seen).every(value => typeof value === 'string')) {
+    throw new Error('El archivo no indica qué cambios del otro teléfono ya tenía.');
+  }
+  if (!Array.isArray(json.records) || !Array.isArray(json.tombstones)) {
+    throw new Error('El archivo no contiene cambios.');
+  }
+  json.records.forEach((record: unknown, index) => {
+    if (!isObject(record) || !isEntityType(record.type) || !isObject(record.item)) {
+      throw new Error(`Cambio ${index + 1}: no es válido.`);
+    }
+    const field = invalidField(record.type, record.item);
+    if (field) {
+      throw new Error(`${ENTITY_LABELS[record.type]}, cambio ${index + 1}: el campo "${field}" no es válido.`);
+    }
+  });
+  json.tombstones.forEach((tombstone: unknown, index) => {
+    if (!isObject(tombstone) || typeof tombstone.id !== 'string' || !isEntityType(tombstone.type) || typeof tombstone.deletedAt !== 'string') {
+      throw new Error(`Eliminación ${index + 1}: no es válida.`);
+    }
+  });
+  return json as unknown as ChangeSet;
+}
+
+// --- CSV ---
+type CsvEntityType = 'clients' | 'transactions' | 'sales' | 'expenses' | 'products';
+type DecimalSeparator = ',' | '.';
+
+interface CsvColumn {
+  field: string;
+  header: string;
+  kind: 'text' | 'money' | 'integer' | 'date' | 'client' | 'creditor' | 'category';
+  required: boolean;
+}
+
+const CSV_ENTITY_TYPES: CsvEntityType[] = ['clients', 'transactions', 'sales', 'expenses', 'products'];
+
+// Column layout of each exportable entity. 'client', 'creditor' and 'category' columns hold names, not ids.
+const CSV_COLUMNS: Record<CsvEntityType, CsvColumn[]> = {
+  clients: [
+    { field: 'name', header: 'Nombre', kind: 'text', required: true },
+    { field: 'phone', header: 'Teléfono', kind: 'text', required: false },
+  ],
+  transactions: [
+    { field: 'clientId', header: 'Cliente', kind: 'client', required: true },
+    { field: 'date', header: 'Fecha', kind: 'date', required: true },
+    { field: 'amount', header: 'Monto', kind: 'money', required: true },
+    { field: 'description', header: 'Descripción', kind: 'text', required: true },
+  ],
+  sales: [
+    { field: 'date', header: 'Fecha', kind: 'date', required: true },
+    { field: 'amount', header: 'Monto', kind: 'money', required: true },
+    { field: 'description', header: 'Descripción', kind: 'text', required: true },
+  ],
+  expenses: [
+    { field: 'date', header: 'Fecha', kind: 'date', required: true },
+    { field: 'amount', header: 'Monto', kind: 'money', required: true },
+    { field: 'categoryId', header: 'Categoría', kind: 'category', required: true },
+    { field: 'description', header: 'Descripción', kind: 'text', required: true },
+    { field: 'creditorId', header: 'Acreedor', kind: 'creditor', required: false },
+  ],
+  products: [
+    { field: 'name', header: 'Nombre', kind: 'text', required: true },
+    { field: 'description', header: 'Descripción', kind: 'text', required: false },
+    { field: 'price', header: 'Precio', kind: 'money', required: true },
+    { field: 'quantity', header: 'Cantidad', kind: 'integer', required: true },
+    { field: 'sku', header: 'Código', kind: 'text', required: false },
+    { field: 'minStock', header: 'Stock Mínimo', kind: 'integer', required: false },
+    { field: 'supplierId', header: 'Proveedor', kind: 'creditor', required: false },
+  ],
+};
+
+function toCsv(rows: string[][], delimiter: string): string {
+  const escape = (value: string) =>
+    /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+  return rows.map(row => row.map(escape).join(delimiter)).join('\r\n');
+}
+
+// Parses CSV text, detecting ';', ',' or tab as the delimiter from the header line.
+function parseCsv(text: string): string[][] {
+  text = text.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+function formatCsvNumber(value: number, decimal: DecimalSeparator): string {
+  return decimal === ','
+    ? value.toLocaleString('es-CO', { maximumFractionDigits: 2 })
+    : value.toString();
+}
+
+// Parses "1.234,56" (decimal ',') or "1,234.56" (decimal '.'), ignoring currency symbols.
+function parseCsvNumber(value: string, decimal: DecimalSeparator): number {
+  const thousands = decimal === ',' ? '.' : ',';
+  const cleaned = value.replace(/[\s$]/g, '').split(thousands).join('').replace(decimal, '.');
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? parseFloat(cleaned) : NaN;
+}
+
+// Accepts YYYY-MM-DD or DD/MM/YYYY and returns YYYY-MM-DD, or null if the date is invalid.
+function parseCsvDate(value: string): string | null {
+  let match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  let [year, month, day] = match ? [match[1], match[2], match[3]] : ['', '', ''];
+  if (!match) {
+    match = value.trim().match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+    if (!match) return null;
+    [day, month, year] = [match[1], match[2], match[3]];
+  }
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(iso + 'T00:00:00');
+  return !isNaN(date.getTime()) && date.getDate() === parseInt(day) ? iso : null;
+}
+
+interface CsvLookups {
+  clients: Client[];
+  creditors: Creditor[];
+  categories: ExpenseCategory[];
+}
+
+function entitiesToCsv(type: CsvEntityType, items: Entity[], lookups: CsvLookups, decimal: DecimalSeparator): string {
+  const columns = CSV_COLUMNS[type];
+  const clientNames = new Map(lookups.clients.map(c => [c.id, c.name]));
+  const creditorNames = new Map(lookups.creditors.map(c => [c.id, c.name]));
+  const categoryNames = new Map(lookups.categories.map(c => [c.id, c.name]));
+  const rows = items.map(item => columns.map(column => {
+    const value = (item as unknown as Record<string, unknown>)[column.field];
+    if (value === undefined || value === null) return '';
+    switch (column.kind) {
+      case 'money': return formatCsvNumber(toMajor(Number(value)), decimal);
+      case 'client': return clientNames.get(String(value)) || '';
+      case 'creditor': return creditorNames.get(String(value)) || '';
+      case 'category': return categoryNames.get(String(value)) || '';
+      default: return String(value);
+    }
+  }));
+  return toCsv([columns.map(c => c.header), ...rows], decimal === ',' ? ';' : ',');
+}
+
+// Builds a record from one mapped CSV row. Throws an Error with a user-facing message.
+function csvRowToRecord(type: CsvEntityType, values: Record<string, string>, lookups: CsvLookups, decimal: DecimalSeparator): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  CSV_COLUMNS[type].forEach(column => {
+    const raw = (values[column.field] || '').trim();
+    if (!raw) {
+      if (column.required) throw new Error(`"${column.header}" está vacío.`);
+      if (column.kind === 'text') record[column.field] = '';
+      return;
+    }
+    switch (column.kind) {
+      case 'money': {
+        const n = parseCsvNumber(raw, decimal);
+        if (isNaN(n) || Math.abs(toMinor(n)) > MAX_MONEY) throw new Error(`"${column.header}" no es un monto válido: ${raw}`);
+        record[column.field] = toMinor(n);
+        break;
+      }
+      case 'integer': {
+        const n = parseCsvNumber(raw, decimal);
+        if (isNaN(n)) throw new Error(`"${column.header}" no es un número válido: ${raw}`);
+        if (!Number.isInteger(n)) throw new Error(`"${column.header}" debe ser un número entero: ${raw}`);
+        record[column.field] = n;
+        break;
+      }
+      case 'date': {
+        const date = parseCsvDate(raw);
+        if (!date) throw new Error(`"${column.header}" no es una fecha válida: ${raw}`);
+        record[column.field] = date;
+        break;
+      }
+      case 'client':
+      case 'creditor': {
+        const candidates = (column.kind === 'client' ? lookups.clients : lookups.creditors)
+          .filter(c => normalizeText(c.name) === normalizeText(raw));
+        if (candidates.length === 0) throw new Error(`No existe ${column.kind === 'client' ? 'el cliente' : 'el acreedor'} "${raw}".`);
+        if (candidates.length > 1) throw new Error(`Hay varios ${column.kind === 'client' ? 'clientes' : 'acreedores'} llamados "${raw}".`);
+        record[column.field] = candidates[0].id;
+        break;
+      }
+      case 'category': {
+        const category = lookups.categories.find(c => normalizeText(c.name) === normalizeText(raw));
+        if (!category) throw new Error(`No existe la categoría "${raw}". Créala primero en Gastos > Categorías.`);
+        record[column.field] = category.id;
+        break;
+      }
+      default:
+        record[column.field] = raw;
+    }
+  });
+  return record;
+}
+
+// --- INVENTORY ---
+const STOCK_MOVEMENT_LABELS: Record<StockMovementKind, string> = {
+  initial: 'Conteo inicial',
+  purchase: 'Compra',
+  sale: 'Venta',
+  return: 'Devolución',
+  adjustment: 'Ajuste',
+};
+
+type StockLevel = 'ok' | 'low' | 'out';
+type InventorySort = 'name' | 'stock' | 'sku';
+
+const INVENTORY_SORT_LABELS: Record<InventorySort, string> = {
+  name: 'Nombre',
+  stock: 'Menor stock',
+  sku: 'Código',
+};
+
+// A product is low once its stock reaches the minimum set on it.
+function stockLevel(product: Product): StockLevel {
+  if (product.quantity <= 0) return 'out';
+  if (product.minStock !== undefined && product.quantity <= product.minStock) return 'low';
+  return 'ok';
+}
+
+function sortProducts(products: Product[], sort: InventorySort): Product[] {
+  const byName = (a: Product, b: Product) => a.name.localeCompare(b.name);
+  return products.slice().sort((a, b) => {
+    if (sort === 'stock') return a.quantity - b.quantity || byName(a, b);
+    // Products without a code go last
+    if (sort === 'sku') return (a.sku ? 0 : 1) - (b.sku ? 0 : 1) || (a.sku || '').localeCompare(b.sku || '') || byName(a, b);
+    return byName(a, b);
+  });
+}
+
+const REORDER_WINDOW_DAYS = 90; // sales history used to measure how fast each product sells
+const REORDER_COVER_DAYS = 30; // a reorder should last this long at that pace
+
+interface ReorderLine {
+  product: Product;
+  unitsSold: number; // net of returns, within the window
+  suggested: number;
+}
+
+interface ReorderGroup {
+  supplierId: string; // '' for products without a preferred supplier
+  lines: ReorderLine[];
+}
+
+// Lists the products to reorder: those at or below their minimum, and those whose stock won't cover
+// REORDER_COVER_DAYS of sales at the pace of the last REORDER_WINDOW_DAYS. Out-of-stock products
+// that have neither a minimum nor recent sales are left out.
+function computeReorder(products: Product[], movements: StockMovement[], today: string): ReorderGroup[] {
+  const since = new Date(today + 'T00:00:00');
+  since.setDate(since.getDate() - REORDER_WINDOW_DAYS);
+  const from = since.toISOString().split('T')[0];
+  const sold = new Map<string, number>();
+  movements.filter(m => (m.kind === 'sale' || m.kind === 'return') && m.date > from && m.date <= today)
+    .forEach(m => sold.set(m.productId, (sold.get(m.productId) || 0) - m.quantity));
+
+  const groups = new Map<string, ReorderLine[]>();
+  products.forEach(product => {
+    const unitsSold = Math.max(0, sold.get(product.id) || 0);
+    const demand = Math.ceil(unitsSold * REORDER_COVER_DAYS / REORDER_WINDOW_DAYS);
+    const atMinimum = product.minStock !== undefined && product.quantity <= product.minStock;
+    if (!atMinimum && product.quantity >= demand) return;
+    const target = Math.max(product.minStock ?? 0, demand);
+    const line = { product, unitsSold, suggested: Math.max(1, target - Math.max(0, product.quantity)) };
+    const supplierId = product.supplierId || '';
+    groups.set(supplierId, [...(groups.get(supplierId) || []), line]);
+  });
+  return [...groups.entries()]
+    .map(([supplierId, lines]) => ({ supplierId, lines: lines.sort((a, b) => a.product.quantity - b.product.quantity || a.product.name.localeCompare(b.product.name)) }))
+    .sort((a, b) => (a.supplierId ? 0 : 1) - (b.supplierId ? 0 : 1));
+}
+
+// --- RECURRING ---
+const RECURRING_TARGET_LABELS: Record<RecurringTemplate['target'], string> = {
+  expenses: 'Gasto',
+  creditorTransactions: 'Cargo de acreedor',
+};
+
+// Scheduled dates of a template, oldest first, until its end date (forever if it has none).
+function* occurrenceDates(template: RecurringTemplate): Generator<string> {
+  const schedule: InstallmentPlan = { count: 0, frequency: template.frequency, firstDueDate: template.startDate };
+  for (let i = 0; ; i++) {
+    const date = installmentDueDate(schedule, i);
+    if (template.endDate && date > template.endDate) return;
+    yield date;
+  }
+}
+
+// Occurrences due by `today` that were not confirmed or skipped yet, oldest first. Every missed period
+// is included, so nothing is lost when the app was not opened for a while.
+function dueOccurrences(template: RecurringTemplate, today: string): string[] {
+  const dates: string[] = [];
+  for (const date of occurrenceDates(template)) {
+    if (date > today) break;
+    if (!template.lastDate || date > template.lastDate) dates.push(date);
+  }
+  return dates;
+}
+
+// The next occurrence still to be reviewed, or null once the template has ended.
+function nextOccurrence(template: RecurringTemplate): string | null {
+  for (const date of occurrenceDates(template)) {
+    if (!template.lastDate || date > template.lastDate) return date;
+  }
+  return null;
+}
+
+// The records a confirmed occurrence creates. An expense linked to a creditor also records the payment
+// to that creditor, just like the expense form does.
+function occurrenceRecords(template: RecurringTemplate, values: { date: string; amount: Money; description: string }): { type: EntityType; item: Entity }[] {
+  if (template.target === 'creditorTransactions') {
+    const charge: CreditorTransaction = { id: generateId(), creditorId: template.creditorId!, date: values.date, amount: Math.abs(values.amount), description: values.description };
+    return [{ type: 'creditorTransactions', item: charge }];
+  }
+  const expense: Expense = {
+    id: generateId(), date: values.date, amount: values.amount, categoryId: template.categoryId!,
+    description: values.description, creditorId: template.creditorId,
+  };
+  const records: { type: EntityType; item: Entity }[] = [{ type: 'expenses', item: expense }];
+  if (template.creditorId) {
+    const payment: CreditorTransaction = {
+      id: generateId(), creditorId: template.creditorId, date: values.date, amount: -Math.abs(values.amount),
+      description: `Pago registrado desde gastos: ${values.description}`,
+    };
+    records.push({ type: 'creditorTransactions', item: payment });
+  }
+  return records;
+}
+
+// --- REPORTS ---
+interface ProfitRow {
+  key: string;
+  label: string;
+  units: number;
+  revenue: number;
+  cost: number;
+  profit: number;
+  missingCost: boolean; // some lines had no known cost, so their profit is overstated
+}
+
+interface ProfitReport {
+  byProduct: ProfitRow[];
+  byMonth: ProfitRow[];
+  byClient: ProfitRow[];
+  salesTotalByMonth: Map<string, number>; // all general sales and client charges, with or without line items
+}
+
+// Gross profit of every sale line, grouped by product, month and client. Lines sold before costs were
+// tracked fall back to the product's current average cost.
+function computeProfitability(sales: Sale[], transactions: Transaction[], products: Product[], clients: Client[]): ProfitReport {
+  const productById = new Map(products.map(p => [p.id, p]));
+  const clientNames = new Map(clients.map(c => [c.id, c.name]));
+  const groups = { byProduct: new Map<string, ProfitRow>(), byMonth: new Map<string, ProfitRow>(), byClient: new Map<string, ProfitRow>() };
+  const salesTotalByMonth = new Map<string, number>();
+
+  const add = (map: Map<string, ProfitRow>, key: string, label: string, item: SaleItem, unitCost: number | undefined) => {
+    const row = map.get(key) || { key, label, units: 0, revenue: 0, cost: 0, profit: 0, missingCost: false };
+    const revenue = saleItemTotal(item);
+    const cost = (unitCost ?? 0) * item.quantity;
+    row.units += item.quantity;
+    row.revenue += revenue;
+    row.cost += cost;
+    row.profit += revenue - cost;
+    row.missingCost = row.missingCost || unitCost === undefined;
+    map.set(key, row);
+  };
+
+  const records: { record: Sale | Transaction; clientId?: string }[] = [
+    ...sales.map(record => ({ record })),
+    ...transactions.filter(t => t.amount > 0).map(record => ({ record, clientId: record.clientId })),
+  ];
+  records.forEach(({ record, clientId }) => {
+    const month = record.date.substring(0, 7);
+    salesTotalByMonth.set(month, (salesTotalByMonth.get(month) || 0) + record.amount);
+    (record.items || []).forEach(item => {
+      const unitCost = item.unitCost ?? productById.get(item.productId)?.cost;
+      add(groups.byProduct, item.productId, productById.get(item.productId)?.name || item.name, item, unitCost);
+      add(groups.byMonth, month, month, item, unitCost);
+      add(groups.byClient, clientId || '', clientId ? clientNames.get(clientId) || 'Cliente eliminado' : 'Ventas generales', item, unitCost);
+    });
+  });
+
+  const byProfit = (a: ProfitRow, b: ProfitRow) => b.profit - a.profit;
+  return {
+    byProduct: [...groups.byProduct.values()].sort(byProfit),
+    byMonth: [...groups.byMonth.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byClient: [...groups.byClient.values()].sort(byProfit),
+    salesTotalByMonth,
+  };
+}
+
+interface MonthSummary {
+  month: string; // 'YYYY-MM'
+  sales: number; // general sales, paid on the spot
+  clientCharges: number;
+  clientPayments: number;
+  expenses: number;
+  creditorPurchases: number;
+  creditorPayments: number;
+  netCashFlow: number; // money in (sales + client payments) minus money out (expenses + creditor payments)
+}
+
+// The `count` months up to and including `lastMonth`, oldest first.
+function monthRange(lastMonth: string, count: number): string[] {
+  const [year, month] = lastMonth.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(year, month - 1 - (count - 1 - i), 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+// Income and outgoings per month. Expenses linked to a creditor are left out of the cash flow because
+// saving them already records a payment to that creditor.
+function computeMonthlySummaries(months: string[], sales: Sale[], transactions: Transaction[], expenses: Expense[], creditorTransactions: CreditorTransaction[]): MonthSummary[] {
+  const summaries = new Map(months.map(month => [month, {
+    month, sales: 0, clientCharges: 0, clientPayments: 0, expenses: 0, creditorPurchases: 0, creditorPayments: 0, netCashFlow: 0,
+  } as MonthSummary]));
+  const summaryFor = (date: string) => summaries.get(date.substring(0, 7));
+
+  sales.forEach(s => { const m = summaryFor(s.date); if (m) m.sales += s.amount; });
+  transactions.forEach(t => {
+    const m = summaryFor(t.date);
+    if (!m) return;
+    if (t.amount > 0) m.clientCharges += t.amount;
+    else m.clientPayments -= t.amount;
+  });
+  creditorTransactions.forEach(t => {
+    const m = summaryFor(t.date);
+    if (!m) return;
+    if (t.amount > 0) m.creditorPurchases += t.amount;
+    else m.creditorPayments -= t.amount;
+  });
+
+  const cashExpenses = new Map<string, number>();
+  expenses.forEach(e => {
+    const m = summaryFor(e.date);
+    if (!m) return;
+    m.expenses += e.amount;
+    if (!e.creditorId) cashExpenses.set(m.month, (cashExpenses.get(m.month) || 0) + e.amount);
+  });
+  summaries.forEach(m => {
+    m.netCashFlow = m.sales + m.clientPayments - (cashExpenses.get(m.month) || 0) - m.creditorPayments;
+  });
+  return [...summaries.values()];
+}
+
+interface StatementLine {
+  transaction: Transaction;
+  balance: number; // client balance after this transaction
+}
+
+interface ClientStatement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+}
+
+// Account statement for one client between two 'YYYY-MM-DD' dates, both inclusive.
+function buildClientStatement(transactions: Transaction[], from: string, to: string): ClientStatement {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const openingBalance = sumMoney(sorted.filter(t => t.date < from).map(t => t.amount));
+  let balance = openingBalance;
+  const lines = sorted.filter(t => t.date >= from && t.date <= to).map(transaction => {
+    balance += transaction.amount;
+    return { transaction, balance };
+  });
+  return { from, to, openingBalance, lines, closingBalance: balance };
+}
+
+// Number for wa.me links. Numbers written with "+" or "00" are already international; local ones get
+// `countryCode` unless they start with it.
+function whatsAppNumber(phone: string, countryCode: string): string {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return digits;
+  if (trimmed.startsWith('00')) return digits.substring(2);
+  const local = digits.replace(/^0+/, ''); // trunk prefix used for national dialing
+  return !countryCode || local.startsWith(countryCode) ? local : countryCode + local;
+}
+
+// --- ORDERS ---
+const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pendiente',
+  ordered: 'Pedido al proveedor',
+  received: 'Recibido',
+  delivered: 'Entregado',
+};
+
+function orderTotal(order: Order): Money {
+  return sumMoney(order.lines.map(line => line.quantity * line.unitPrice));
+}
+
+function orderSummary(lines: { name: string; quantity: number }[]): string {
+  return lines.map(line => `${line.quantity}x ${line.name}`).join(', ');
+}
+
+interface PurchaseListGroup {
+  creditorId: string; // '' for orders without a supplier
+  orders: Order[];
+  lines: { productId: string; name: string; quantity: number }[]; // quantities added up across the orders
+}
+
+// What has to be bought (or received) for a set of orders, consolidated per supplier.
+function buildPurchaseList(orders: Order[]): PurchaseListGroup[] {
+  const groups = new Map<string, PurchaseListGroup>();
+  orders.forEach(order => {
+    const creditorId = order.creditorId || '';
+    const group = groups.get(creditorId) || { creditorId, orders: [], lines: [] };
+    group.orders.push(order);
+    order.lines.forEach(line => {
+      const existing = group.lines.find(l => l.productId === line.productId);
+      if (existing) existing.quantity += line.quantity;
+      else group.lines.push({ productId: line.productId, name: line.name, quantity: line.quantity });
+    });
+    groups.set(creditorId, group);
+  });
+  return [...groups.values()].sort((a, b) => (a.creditorId ? 0 : 1) - (b.creditorId ? 0 : 1));
+}
+
+// --- CAMPAIGNS ---
+function campaignName(campaign: Campaign, creditors: Creditor[]): string {
+  const supplier = creditors.find(c => c.id === campaign.creditorId);
+  return `Campaña ${campaign.number}${supplier ? ` · ${supplier.name}` : ''}`;
+}
+
+// The campaign running on `date`, preferring the given supplier's. Used to preselect the campaign of new records.
+function activeCampaign(campaigns: Campaign[], date: string, creditorId?: string): Campaign | undefined {
+  const running = campaigns.filter(c => c.startDate <= date && date <= c.closeDate)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  return running.find(c => c.creditorId === creditorId) || running[0];
+}
+
+function campaignStatus(campaign: Campaign, today: string): string {
+  if (today < campaign.startDate) return `Empieza el ${formatDate(campaign.startDate)}`;
+  if (campaign.orderDeadline && today <= campaign.orderDeadline) return `Pedidos hasta el ${formatDate(campaign.orderDeadline)}`;
+  if (today <= campaign.closeDate) return `Abierta hasta el ${formatDate(campaign.closeDate)}`;
+  return 'Cerrada';
+}
+
+interface CampaignSummary {
+  units: number;
+  revenue: Money; // general sales plus client charges of the campaign
+  collected: Money;
+  pending: Money; // still owed by clients
+  purchases: Money; // what the supplier billed for the campaign
+  supplierPending: Money; // part of those purchases not paid yet
+  profit: Money; // revenue minus purchases
+}
+
+// Payments are not tagged with a campaign, so, as in the aging report, each client's payments settle their
+// oldest charges first and what is still open on the campaign's charges is pending. General sales are
+// paid on the spot. The supplier's payments are applied to its purchases the same way.
+function computeCampaignSummary(campaign: Campaign, sales: Sale[], transactions: Transaction[], creditorTransactions: CreditorTransaction[]): CampaignSummary {
+  const inCampaign = (record: { campaignId?: string }) => record.campaignId === campaign.id;
+  const campaignSales = sales.filter(inCampaign);
+  const charges = transactions.filter(t => t.amount > 0 && inCampaign(t));
+  const purchases = creditorTransactions.filter(t => t.amount > 0 && inCampaign(t));
+
+  const openOnCampaign = <T extends { date: string; amount: number; campaignId?: string }>(records: T[]) =>
+    sumMoney(settleFifo(records).filter(({ charge }) => inCampaign(charge)).map(({ open }) => open));
+  const pending = sumMoney([...new Set(charges.map(t => t.clientId))]
+    .map(clientId => openOnCampaign(transactions.filter(t => t.clientId === clientId))));
+  const supplierPending = sumMoney([...new Set(purchases.map(t => t.creditorId))]
+    .map(creditorId => openOnCampaign(creditorTransactions.filter(t => t.creditorId === creditorId))));
+
+  const revenue = sumMoney([...campaignSales, ...charges].map(r => r.amount));
+  const purchased = sumMoney(purchases.map(t => t.amount));
+  return {
+    units: [...campaignSales, ...charges].reduce((units, r) => units + (r.items || []).reduce((n, item) => n + item.quantity, 0), 0),
+    revenue, collected: revenue - pending, pending,
+    purchases: purchased, supplierPending, profit: revenue - purchased,
+  };
+}
+
+// --- REMINDERS ---
+// Reminders are computed here from the due dates in the Store and queued in the meta store;
+// sw.js shows the ones due today, both on app open and on periodic background sync.
+interface Reminder {
+  id: string; // stable, so a reminder is only shown once
+  date: string; // 'YYYY-MM-DD' day to show it on
+  title: string;
+  body: string;
+  url: string; // opened when the notification is tapped
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// Reminders for `today` and the following `days` - 1 days: client installments due that day and creditor
+// purchases due that day or the next one.
+function computeReminders(clients: Client[], transactions: Transaction[], creditors: Creditor[], creditorTransactions: CreditorTransaction[], today: string, days = 7): Reminder[] {
+  const reminders: Reminder[] = [];
+
+  const byClient = new Map<string, Transaction[]>();
+  transactions.forEach(t => byClient.set(t.clientId, [...(byClient.get(t.clientId) || []), t]));
+  const dueByDay = new Map<string, Client[]>();
+  clients.forEach(client => {
+    const dueDays = new Set(computeInstallmentStatus(byClient.get(client.id) || [], today)
+      .filter(s => s.amount > s.paid && s.dueDate >= today).map(s => s.dueDate));
+    dueDays.forEach(day => dueByDay.set(day, [...(dueByDay.get(day) || []), client]));
+  });
+
+  const openPurchases: { creditor: Creditor; purchase: CreditorTransaction; open: number }[] = [];
+  creditors.forEach(creditor => {
+    settleFifo(creditorTransactions.filter(t => t.creditorId === creditor.id))
+      .filter(({ charge, open }) => charge.dueDate && open > 0)
+      .forEach(({ charge, open }) => openPurchases.push({ creditor, purchase: charge, open }));
+  });
+
+  for (let i = 0; i < days; i++) {
+    const day = addDays(today, i);
+    const due = dueByDay.get(day) || [];
+    if (due.length === 1) {
+      reminders.push({ id: `cuotas-${day}-${due[0].id}`, date: day, title: 'Cuota por cobrar', body: `La cuota de ${due[0].name} vence hoy`, url: `/#/clientes/${due[0].id}` });
+    } else if (due.length > 1) {
+      reminders.push({ id: `cuotas-${day}`, date: day, title: 'Cuotas por cobrar', body: `${due.length} clientes tienen cuotas que vencen hoy`, url: '/#/clientes' });
+    }
+    openPurchases.forEach(({ creditor, purchase, open }) => {
+      const when = purchase.dueDate === day ? 'hoy' : purchase.dueDate === addDays(day, 1) ? 'mañana' : null;
+      if (!when) return;
+      reminders.push({
+        id: `pago-${purchase.id}-${when}`, date: day, title: 'Pago a proveedor',
+        body: `Pago a ${creditor.name} vence ${when} (${formatMoney(open)})`, url: `/#/acreedores/${creditor.id}`,
+      });
+    });
+  }
+  return reminders;
+}
+
+// Same reminder without names or amounts.
+function hideReminderDetails(reminder: Reminder): Reminder {
+  return { ...reminder, body: reminder.id.startsWith('pago-') ? 'Tienes un pago a proveedor por vencer' : 'Tienes cuotas por cobrar que vencen hoy' };
+}
+
+// --- SEARCH ---
+interface SearchQuery {
+  terms: string[]; // normalized words that must all appear
+  min?: number; // amount range, from ">50000", "<20000" or "10000..20000"
+  max?: number;
+}
+
+interface SearchResult {
+  type: EntityType;
+  id: string;
+  title: string;
+  subtitle: string;
+  amount?: number;
+}
+
+const SEARCH_GROUP_LIMIT = 20;
+
+function parseSearchQuery(query: string): SearchQuery {
+  const result: SearchQuery = { terms: [] };
+  const amount = (value: string) => toMinor(parseCsvNumber(value, ','));
+  normalizeText(query).split(/\s+/).filter(Boolean).forEach(word => {
+    // Ranges need ".." so phone numbers and dates like 300-1234567 are searched as text.
+    const range = word.match(/^([\d.,]+?)\.\.([\d.,]+)$/);
+    const bound = word.match(/^([<>])([\d.,]+)$/);
+    if (range && amount(range[1]) <= amount(range[2])) {
+      result.min = amount(range[1]);
+      result.max = amount(range[2]);
+    } else if (bound && !isNaN(amount(bound[2]))) {
+      if (bound[1] === '>') result.min = amount(bound[2]);
+      else result.max = amount(bound[2]);
+    } else {
+      result.terms.push(word);
+    }
+  });
+  return result;
+}
+
+// Accent-insensitive search over names, phones and descriptions. Records with an amount also match on the
+// owner's name and the month they happened in, so "perfume marta marzo" finds that sale.
+function searchData(data: Pick<DataSet, 'clients' | 'creditors' | 'products' | 'transactions' | 'sales' | 'expenses' | 'categories' | 'creditorTransactions'>, query: SearchQuery): SearchResult[] {
+  const clientNames = new Map((data.clients as Client[]).map(c => [c.id, c.name]));
+  const creditorNames = new Map((data.creditors as Creditor[]).map(c => [c.id, c.name]));
+  const categoryNames = new Map((data.categories as ExpenseCategory[]).map(c => [c.id, c.name]));
+  const monthName = (date: string) => new Date(date + 'T00:00:00').toLocaleString(activeSettings.locale, { month: 'long' });
+  const hasRange = query.min !== undefined || query.max !== undefined;
+  const matches = (text: string, amount?: number) => {
+    if (hasRange && (amount === undefined || Math.abs(amount) < (query.min ?? -Infinity) || Math.abs(amount) > (query.max ?? Infinity))) return false;
+    const haystack = normalizeText(text);
+    return query.terms.every(term => haystack.includes(term));
+  };
+  if (query.terms.length === 0 && !hasRange) return [];
+
+  const results: SearchResult[] = [];
+  const add = (type: EntityType, items: SearchResult[]) => results.push(...items.slice(0, SEARCH_GROUP_LIMIT));
+  const byDate = <T extends { date: string }>(a: T, b: T) => b.date.localeCompare(a.date);
+
+  add('clients', (data.clients as Client[]).filter(c => matches(`${c.name} ${c.phone}`))
+    .map(c => ({ type: 'clients', id: c.id, title: c.name, subtitle: c.phone })));
+  add('creditors', (data.creditors as Creditor[]).filter(c => matches(`${c.name} ${c.phone}`))
+    .map(c => ({ type: 'creditors', id: c.id, title: c.name, subtitle: c.phone })));
+  add('products', (data.products as Product[]).filter(p => matches(`${p.name} ${p.sku || ''} ${p.description}`, p.price))
+    .map(p => ({ type: 'products', id: p.id, title: p.sku ? `${p.name} (${p.sku})` : p.name, subtitle: `${formatMoney(p.price)} - Stock: ${p.quantity}`, amount: p.price })));
+  add('transactions', ([...data.transactions] as Transaction[]).sort(byDate)
+    .filter(t => matches(`${t.description} ${clientNames.get(t.clientId) || ''} ${monthName(t.date)}`, t.amount))
+    .map(t => ({ type: 'transactions', id: t.id, title: t.description, subtitle: `${clientNames.get(t.clientId) || ''} - ${formatDate(t.date)}`, amount: t.amount })));
+  add('sales', ([...data.sales] as Sale[]).sort(byDate).filter(s => matches(`${s.description} ${monthName(s.date)}`, s.amount))
+    .map(s => ({ type: 'sales', id: s.id, title: s.description, subtitle: formatDate(s.date), amount: s.amount })));
+  add('expenses', ([...data.expenses] as Expense[]).sort(byDate)
+    .filter(e => matches(`${e.description} ${categoryNames.get(e.categoryId) || ''} ${creditorNames.get(e.creditorId || '') || ''} ${monthName(e.date)}`, e.amount))
+    .map(e => ({ type: 'expenses', id: e.id, title: e.description, subtitle: `${categoryNames.get(e.categoryId) || 'Sin categoría'} - ${formatDate(e.date)}`, amount: -e.amount })));
+  add('creditorTransactions', ([...data.creditorTransactions] as CreditorTransaction[]).sort(byDate)
+    .filter(t => matches(`${t.description} ${creditorNames.get(t.creditorId) || ''} ${monthName(t.date)}`, t.amount))
+    .map(t => ({ type: 'creditorTransactions', id: t.id, title: t.description, subtitle: `${creditorNames.get(t.creditorId) || ''} - ${formatDate(t.date)}`, amount: t.amount })));
+  return results;
+}
+
+// --- AUDIT LOG ---
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Creado', update: 'Modificado', delete: 'Enviado a la papelera',
+  restore: 'Restaurado', purge: 'Eliminado definitivamente', import: 'Importado de respaldo',
+  sync: 'Sincronizado desde otro teléfono',
+};
+
+const AUDIT_FIELD_LABELS: { [field: string]: string } = {
+  name: 'Nombre', phone: 'Teléfono', date: 'Fecha', amount: 'Monto', description: 'Descripción',
+  category: 'Categoría', price: 'Precio', quantity: 'Cantidad', creditorId: 'Acreedor',
+  installmentPlan: 'Plan de cuotas', dueDate: 'Vencimiento', budget: 'Presupuesto', status: 'Estado',
+  sku: 'Código', minStock: 'Stock mínimo',
+};
+
+// --- ROUTER ---
+// Navigation state lives in the URL hash, e.g. #/clientes/abc123 or #/gastos?mes=2026-09, so reloads,
+// bookmarks and the browser's back button keep working.
+type Page = 'dashboard' | 'clients' | 'statement' | 'aging' | 'orders' | 'sales' | 'campaigns' | 'campaign' | 'expenses' | 'categories' | 'recurring' | 'inventory' | 'reorder' | 'creditors' | 'help' | 'backup' | 'sync' | 'trash' | 'profit' | 'settings';
+type BalanceFilter = 'all' | 'debt' | 'credit';
+
+interface Route {
+  page: Page;
+  clientId: string | null;
+  creditorId: string | null;
+  campaignId: string | null; // on the 'campaign' page
+  clientFilter: BalanceFilter | 'overdue';
+  creditorFilter: BalanceFilter;
+  month: string; // 'YYYY-MM' or 'all' on the sales, expenses and profit pages
+  agingType: 'clients' | 'creditors';
+  inventorySort: InventorySort;
+  statementFrom?: string;
+  statementTo?: string;
+}
+
+const INVENTORY_SORT_PARAMS: Record<InventorySort, string> = { name: 'nombre', stock: 'stock', sku: 'codigo' };
+
+const PAGE_PATHS: Record<Exclude<Page, 'statement' | 'campaign'>, string> = {
+  dashboard: 'resumen',
+  clients: 'clientes',
+  aging: 'cartera',
+  orders: 'pedidos',
+  sales: 'ventas',
+  profit: 'ventas/rentabilidad',
+  campaigns: 'ventas/campanas',
+  expenses: 'gastos',
+  categories: 'gastos/categorias',
+  recurring: 'gastos/recurrentes',
+  inventory: 'inventario',
+  reorder: 'inventario/reabastecer',
+  creditors: 'acreedores',
+  help: 'ayuda',
+  backup: 'ayuda/respaldo',
+  sync: 'ayuda/sincronizar',
+  trash: 'ayuda/papelera',
+  settings: 'ayuda/ajustes',
+};
+
+function routeToHash(route: Route): string {
+  const params = new URLSearchParams();
+  let path: string;
+  if (route.clientId) {
+    path = `clientes/${encodeURIComponent(route.clientId)}`;
+    if (route.page === 'statement') {
+      path += '/estado-de-cuenta';
+      if (route.statementFrom) params.set('desde', route.statementFrom);
+      if (route.statementTo) params.set('hasta', route.statementTo);
+    }
+  } else if (route.creditorId) {
+    path = `acreedores/${encodeURIComponent(route.creditorId)}`;
+  } else if (route.page === 'campaign' && route.campaignId) {
+    path = `${PAGE_PATHS.campaigns}/${encodeURIComponent(route.campaignId)}`;
+  } else {
+    path = PAGE_PATHS[route.page === 'statement' ? 'clients' : route.page === 'campaign' ? 'campaigns' : route.page];
+    if (route.page === 'clients' && route.clientFilter !== 'all') params.set('filtro', route.clientFilter);
+    if (route.page === 'creditors' && route.creditorFilter !== 'all') params.set('filtro', route.creditorFilter);
+    if (['sales', 'expenses', 'profit'].includes(route.page) && route.month !== 'all') params.set('mes', route.month);
+    if (route.page === 'aging') params.set('tipo', route.agingType === 'clients' ? 'clientes' : 'acreedores');
+    if (route.page === 'inventory' && route.inventorySort !== 'name') params.set('orden', INVENTORY_SORT_PARAMS[route.inventorySort]);
+  }
+  const query = params.toString();
+  return `#/${path}${query ? '?' + query : ''}`;
+}
+
+// Unknown or malformed hashes fall back to the dashboard.
+function parseHash(hash: string): Route {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const params = new URLSearchParams(query);
+  const isDate = (value: string | null) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const month = params.get('mes') || '';
+  const filter = params.get('filtro');
+  const route: Route = {
+    page: 'dashboard', clientId: null, creditorId: null, campaignId: null,
+    clientFilter: filter === 'debt' || filter === 'credit' || filter === 'overdue' ? filter : 'all',
+    creditorFilter: filter === 'debt' || filter === 'credit' ? filter : 'all',
+    month: /^\d{4}-\d{2}$/.test(month) ? month : 'all',
+    agingType: params.get('tipo') === 'acreedores' ? 'creditors' : 'clients',
+    inventorySort: (Object.keys(INVENTORY_SORT_PARAMS) as InventorySort[]).find(sort => INVENTORY_SORT_PARAMS[sort] === params.get('orden')) || 'name',
+  };
+
+  if (segments[0] === 'clientes' && segments[1]) {
+    route.clientId = segments[1];
+    route.page = segments[2] === 'estado-de-cuenta' ? 'statement' : 'clients';
+    if (isDate(params.get('desde'))) route.statementFrom = params.get('desde')!;
+    if (isDate(params.get('hasta'))) route.statementTo = params.get('hasta')!;
+    return route;
+  }
+  if (segments[0] === 'acreedores' && segments[1]) {
+    route.creditorId = segments[1];
+    route.page = 'creditors';
+    return route;
+  }
+  if (segments.slice(0, 2).join('/') === PAGE_PATHS.campaigns && segments[2]) {
+    route.campaignId = segments[2];
+    route.page = 'campaign';
+    return route;
+  }
+  const page = (Object.keys(PAGE_PATHS) as (keyof typeof PAGE_PATHS)[]).find(p => PAGE_PATHS[p] === segments.join('/'));
+  if (page) route.page = page;
+  return route;
+}
+
+// --- MAIN APP ---
+
+class App {
+  private store: Store;
+  private currentPage: Page = 'dashboard';
+  private currentClientId: string | null = null;
+  private currentCreditorId: string | null = null;
+  private currentCampaignId: string | null = null;
+  private currentOrderStatus: OrderStatus | 'open' = 'open';
+  private currentExpenseMonth: string = 'all'; // 'YYYY-MM' format or 'all'
+  private currentSaleMonth: string = 'all'; // 'YYYY-MM' format or 'all'
+  private currentReportMonth: string = 'all'; // 'YYYY-MM' format or 'all'
+  private currentAgingType: 'clients' | 'creditors' = 'clients';
+  private currentInventorySort: InventorySort = 'name';
+  private statementFrom: string = new Date().toISOString().substring(0, 8) + '01'; // 'YYYY-MM-DD'
+  private statementTo: string = new Date().toISOString().split('T')[0];
+  private currentClientFilter: BalanceFilter | 'overdue' = 'all';
+  private currentCreditorFilter: BalanceFilter = 'all';
+  private appContent: HTMLElement;
+  private headerTitle: HTMLElement;
+  private modalContainer: HTMLElement;
+  private snackbar: HTMLElement;
+  private snackbarTimer: number | undefined;
+  private searchInput: HTMLInputElement;
+  private lockScreen: HTMLElement;
+  private lastActivity = Date.now();
+  private replaceHistory = false; // makes the next syncUrl() replace the history entry instead of adding one
+
+  constructor() {
+    this.store = new Store();
+    this.appContent = document.getElementById('app-content')!;
+    this.headerTitle = document.getElementById('header-title')!;
+    this.modalContainer = document.getElementById('modal-container')!;
+    this.snackbar = document.getElementById('snackbar')!;
+    this.searchInput = document.getElementById('search-input') as HTMLInputElement;
+    this.lockScreen = document.getElementById('lock-screen')!;
+    
+    this.setupEventListeners();
+    this.setupAutoLock();
+    this.init();
+  }
+
+  private async init(): Promise<void> {
+    try {
+      await this.store.open();
+      if (this.store.isLocked) await this.showLockScreen();
+      applySettings(await this.store.getSettings());
+    } catch (err) {
+      console.error('No se pudo abrir la base de datos', err);
+      this.appContent.innerHTML = `<div class="empty-state"><i class="fas fa-triangle-exclamation"></i><p>No se pudieron cargar los datos.</p><p>${(err as Error).message}</p></div>`;
+      return;
+    }
+    this.applyRoute(parseHash(window.location.hash));
+    window.history.replaceState(window.history.state, '', routeToHash(this.currentRoute()));
+    await this.render();
+    if (new URLSearchParams(window.location.search).has('action')) this.handleUrlActions(); // Handle actions from shortcuts
+    else await this.reviewRecurring();
+    this.checkReminders();
+  }
+
+  private currentRoute(): Route {
+    const month = this.currentPage === 'sales' ? this.currentSaleMonth
+      : this.currentPage === 'expenses' ? this.currentExpenseMonth
+      : this.currentReportMonth;
+    return {
+      page: this.currentPage, clientId: this.currentClientId, creditorId: this.currentCreditorId, campaignId: this.currentCampaignId,
+      clientFilter: this.currentClientFilter, creditorFilter: this.currentCreditorFilter, month,
+      agingType: this.currentAgingType, inventorySort: this.currentInventorySort, statementFrom: this.statementFrom, statementTo: this.statementTo,
+    };
+  }
+
+  private applyRoute(route: Route): void {
+    this.currentPage = route.page;
+    this.currentClientId = route.clientId;
+    this.currentCreditorId = route.creditorId;
+    this.currentCampaignId = route.campaignId;
+    if (route.page === 'clients') this.currentClientFilter = route.clientFilter;
+    if (route.page === 'creditors') this.currentCreditorFilter = route.creditorFilter;
+    if (route.page === 'sales') this.currentSaleMonth = route.month;
+    if (route.page === 'expenses') this.currentExpenseMonth = route.month;
+    if (route.page === 'profit') this.currentReportMonth = route.month;
+    if (route.page === 'aging') this.currentAgingType = route.agingType;
+    if (route.page === 'inventory') this.currentInventorySort = route.inventorySort;
+    if (route.statementFrom) this.statementFrom = route.statementFrom;
+    if (route.statementTo) this.statementTo = route.statementTo;
+  }
+
+  // Mirrors the current state into the URL. Moving to another page adds a history entry;
+  // changing a filter on the same page replaces it.
+  // Each history entry records how many app pages lie behind it, so navigateBack knows whether
+  // history.back() stays inside the app.
+  private syncUrl(): void {
+    const hash = routeToHash(this.currentRoute());
+    const replace = this.replaceHistory;
+    this.replaceHistory = false;
+    if (hash === window.location.hash) return;
+    const depth: number = window.history.state?.depth ?? 0;
+    if (replace || hash.split('?')[0] === window.location.hash.split('?')[0]) window.history.replaceState({ depth }, '', hash);
+    else window.history.pushState({ depth: depth + 1 }, '', hash);
+  }
+
+  // Back arrow of a sub-page. Goes back in history when the previous entry is an app page, so the
+  // phone's back button doesn't return here afterwards; otherwise `toParent` sets the parent page,
+  // which replaces the current entry.
+  private navigateBack(toParent: () => void): void {
+    if ((window.history.state?.depth ?? 0) > 0) {
+      window.history.back(); // the popstate listener renders the previous page
+      return;
+    }
+    toParent();
+    this.replaceHistory = true;
+    this.render();
+  }
+
+  // Refreshes the reminder queue and asks the service worker to show what is due today.
+  private async checkReminders(): Promise<void> {
+    if (!('serviceWorker' in navigator) || !('Notification' in window)) return;
+    if (!(await this.store.getRemindersEnabled()) || Notification.permission !== 'granted') return;
+    const [clients, transactions, creditors, creditorTransactions] = await Promise.all([
+      this.store.getClients(), this.store.getTransactions(), this.store.getCreditors(), this.store.getCreditorTransactions(),
+    ]);
+    const reminders = computeReminders(clients, transactions, creditors, creditorTransactions, new Date().toISOString().split('T')[0]);
+    // The queue stays unencrypted for sw.js, so with the PIN lock on it must not name anyone
+    await this.store.saveReminderQueue(this.store.isLockEnabled ? reminders.map(hideReminderDetails) : reminders);
+
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'show-reminders' });
+    // Periodic background sync is only available in some Chromium browsers for installed apps
+    const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> } }).periodicSync;
+    periodicSync?.register('payment-reminders', { minInterval: 12 * 60 * 60 * 1000 }).catch(() => { /* permission not granted */ });
+  }
+
+  private async toggleReminders(): Promise<void> {
+    if (await this.store.getRemindersEnabled()) {
+      await this.store.setRemindersEnabled(false);
+      await this.store.saveReminderQueue([]);
+      this.render();
+      return;
+    }
+    if (!('Notification' in window) || !('serviceWorker' in navigator)) {
+      alert('Este navegador no permite notificaciones.');
+      return;
+    }
+    if (await Notification.requestPermission() !== 'granted') {
+      alert('No se dio permiso para mostrar notificaciones. Puedes activarlo en la configuración del navegador.');
+      return;
+    }
+    await this.store.setRemindersEnabled(true);
+    await this.checkReminders();
+    this.render();
+  }
+
+  private handleUrlActions(): void {
+    const urlParams = new URLSearchParams(window.location.search);
+    const action = urlParams.get('action');
+
+    if (!action) return;
+
+    // Use a short delay to ensure the UI is ready before opening a modal
+    setTimeout(() => {
+        switch (action) {
+            case 'new_client':
+                this.renderClientForm();
+                break;
+            case 'new_sale':
+                this.renderSaleForm();
+                break;
+            case 'new_expense':
+                this.renderExpenseForm();
+                break;
+            case 'new_product':
+                this.renderProductForm();
+                break;
+        }
+        // Clean the URL so the action doesn't re-trigger on reload
+        window.history.replaceState(window.history.state, document.title, window.location.pathname + window.location.hash);
+    }, 100);
+  }
+
+  private setupEventListeners(): void {
+    window.addEventListener('popstate', () => {
+      document.body.classList.remove('searching');
+      this.closeModal();
+      this.applyRoute(parseHash(window.location.hash));
+      this.render();
+    });
+
+    document.getElementById('search-btn')?.addEventListener('click', () => {
+      if (document.body.classList.contains('searching')) this.closeSearch();
+      else this.openSearch();
+    });
+    let searchTimer: number | undefined;
+    this.searchInput.addEventListener('input', () => {
+      clearTimeout(searchTimer);
+      searchTimer = window.setTimeout(() => this.renderSearchResults(), 200);
+    });
+    this.searchInput.addEventListener('keydown', e => {
+      if (e.key === 'Escape') this.closeSearch();
+    });
+
+    document.getElementById('bottom-nav')?.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('.nav-btn');
+      if (target) {
+        const page = (target as HTMLElement).dataset.page as any;
+        if (document.body.classList.contains('searching')) {
+            document.body.classList.remove('searching');
+            this.currentClientId = null;
+            this.currentCreditorId = null;
+            this.currentPage = page;
+            this.render();
+        } else if (this.currentPage !== page) {
+            this.currentClientId = null;
+            this.currentCreditorId = null;
+            this.currentPage = page;
+            this.render();
+        }
+      }
+    });
+
+    this.appContent.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const clientCard = target.closest('.client-card');
+      const creditorCard = target.closest('.creditor-card');
+      const fab = target.closest('.fab');
+      const editBtn = target.closest('[data-action="edit"]');
+      const deleteBtn = target.closest('[data-action="delete"]');
+      const historyBtn = target.closest('[data-action="history"]');
+      const stockHistoryBtn = target.closest('[data-action="stock-history"]');
+      const agingBtn = target.closest('.open-aging-btn');
+      
+      if (clientCard) {
+        this.currentClientId = clientCard.getAttribute('data-client-id');
+        this.render();
+      }
+      if (creditorCard) {
+        this.currentCreditorId = creditorCard.getAttribute('data-creditor-id');
+        this.render();
+      }
+      if (fab) {
+        this.handleFabClick();
+      }
+      if(editBtn) {
+        this.handleEditClick(editBtn as HTMLElement);
+      }
+      if (deleteBtn) {
+        this.handleDeleteClick(deleteBtn as HTMLElement);
+      }
+      if (historyBtn) {
+        this.renderAuditLog((historyBtn as HTMLElement).dataset.id!);
+      }
+      if (stockHistoryBtn) {
+        this.renderStockHistory((stockHistoryBtn as HTMLElement).dataset.id!);
+      }
+      if (agingBtn) {
+        this.currentAgingType = (agingBtn as HTMLElement).dataset.aging as 'clients' | 'creditors';
+        this.currentPage = 'aging';
+        this.render();
+      }
+    });
+  }
+
+  private handleFabClick(): void {
+    if (this.currentClientId) {
+      this.renderTransactionForm();
+    } else if (this.currentCreditorId) {
+        this.renderCreditorTransactionForm();
+    } else {
+      switch (this.currentPage) {
+        case 'clients': this.renderClientForm(); break;
+        case 'sales': this.renderSaleForm(); break;
+        case 'campaigns': this.renderCampaignForm(); break;
+        case 'orders': this.renderOrderForm(); break;
+        case 'expenses': this.renderExpenseForm(); break;
+        case 'categories': this.renderCategoryForm(); break;
+        case 'recurring': this.renderRecurringForm(); break;
+        case 'inventory': this.renderProductForm(); break;
+        case 'creditors': this.renderCreditorForm(); break;
+      }
+    }
+  }
+
+  private async handleEditClick(element: HTMLElement): Promise<void> {
+    const type = element.dataset.type as EntityType | 'transaction' | 'creditorTransaction';
+    const id = element.dataset.id!;
+
+    switch (type) {
+      case 'clients': this.renderClientForm(await this.store.getClient(id)); break;
+      case 'transaction': {
+        // Charges that sold inventory are edited in the sale form so their line items stay editable
+        const transaction = await this.store.getTransaction(id);
+        if (transaction?.items?.length) this.renderSaleForm(transaction);
+        else this.renderTransactionForm(transaction);
+        break;
+      }
+      case 'sales': this.renderSaleForm(await this.store.getSale(id)); break;
+      case 'expenses': this.renderExpenseForm(await this.store.getExpense(id)); break;
+      case 'categories': this.renderCategoryForm(await this.store.getCategory(id)); break;
+      case 'recurringTemplates': this.renderRecurringForm(await this.store.getRecurringTemplate(id)); break;
+      case 'products': this.renderProductForm(await this.store.getProduct(id)); break;
+      case 'creditors': this.renderCreditorForm(await this.store.getCreditor(id)); break;
+      case 'creditorTransaction': this.renderCreditorTransactionForm(await this.store.getCreditorTransaction(id)); break;
+      case 'campaigns': this.renderCampaignForm(await this.store.getCampaign(id)); break;
+      case 'orders': this.renderOrderForm(await this.store.getOrder(id)); break;
+    }
+  }
+
+  private async handleDeleteClick(element: HTMLElement): Promise<void> {
+    const type = element.dataset.type as EntityType | 'transaction' | 'creditorTransaction';
+    const id = element.dataset.id!;
+    
+    const messages: { [key: string]: string } = {
+        default: 'Elemento enviado a la papelera',
+        clients: 'Cliente enviado a la papelera',
+        creditors: 'Acreedor enviado a la papelera',
+        products: 'Producto enviado a la papelera',
+        categories: 'Categoría enviada a la papelera',
+        recurringTemplates: 'Gasto recurrente enviado a la papelera',
+        campaigns: 'Campaña enviada a la papelera',
+        orders: 'Pedido enviado a la papelera',
+    };
+
+    if (type === 'categories') {
+        if ((await this.store.getExpenses()).some(e => e.categoryId === id)) {
+            alert('Esta categoría tiene gastos. Usa "Combinar" para pasarlos a otra categoría antes de eliminarla.');
+            return;
+        }
+        if ((await this.store.getRecurringTemplates()).some(t => t.categoryId === id)) {
+            alert('Esta categoría se usa en gastos recurrentes. Cámbialos de categoría antes de eliminarla.');
+            return;
+        }
+    }
+
+    let storeType: EntityType;
+    if (type === 'transaction') storeType = 'transactions';
+    else if (type === 'creditorTransaction') storeType = 'creditorTransactions';
+    else storeType = type;
+
+    const { deletionId, children } = await this.store.delete(storeType, id);
+    const message = (messages[type] || messages.default) + (children > 0 ? ` con ${children} transacciones` : '');
+    this.showSnackbar(message, 'Deshacer', async () => {
+        try {
+            await this.store.restore(deletionId);
+        } catch (err) {
+            alert((err as Error).message);
+        }
+        this.render();
+    });
+    this.render();
+  }
+
+  // Short label for a record, used in the recycle bin.
+  private describeEntity(type: EntityType, item: Entity): string {
+    if ('name' in item) return item.name;
+    if (type === 'orders') return `Pedido: ${orderSummary((item as Order).lines)}`;
+    if (type === 'campaigns') return `Campaña ${(item as Campaign).number}`;
+    if (type === 'stockMovements') return `${STOCK_MOVEMENT_LABELS[(item as StockMovement).kind]} (${(item as StockMovement).quantity})`;
+    const record = item as Transaction | Sale | Expense | CreditorTransaction;
+    const amount = formatMoney(record.amount);
+    return `${record.description || ENTITY_LABELS[type]} (${amount})`;
+  }
+
+  private openSearch(): void {
+    document.body.classList.add('searching');
+    this.searchInput.value = '';
+    this.searchInput.focus();
+    this.appContent.innerHTML = `<div class="empty-state"><i class="fas fa-magnifying-glass"></i><p>Busca por nombre, teléfono, producto o descripción.</p><p>Usa &gt;50000, &lt;20000 o 10000..20000 para filtrar por monto.</p></div>`;
+  }
+
+  private closeSearch(): void {
+    document.body.classList.remove('searching');
+    this.render();
+  }
+
+  private async renderSearchResults(): Promise<void> {
+    const query = parseSearchQuery(this.searchInput.value);
+    const [clients, creditors, products, transactions, sales, expenses, categories, creditorTransactions] = await Promise.all([
+      this.store.getClients(), this.store.getCreditors(), this.store.getProducts(), this.store.getTransactions(),
+      this.store.getSales(), this.store.getExpenses(), this.store.getCategories(), this.store.getCreditorTransactions(),
+    ]);
+    const results = searchData({ clients, creditors, products, transactions, sales, expenses, categories, creditorTransactions }, query);
+    if (!document.body.classList.contains('searching')) return;
+
+    if (results.length === 0) {
+      this.appContent.innerHTML = `<div class="empty-state"><i class="fas fa-magnifying-glass"></i><p>${this.searchInput.value.trim() ? 'Sin resultados.' : 'Escribe para buscar.'}</p></div>`;
+      return;
+    }
+    const groups = [...new Set(results.map(r => r.type))];
+    this.appContent.innerHTML = groups.map(type => `
+      <h4>${ENTITY_LABELS[type]}</h4>
+      <div class="item-list">
+        ${results.filter(r => r.type === type).map(r => `
+          <div class="card search-result" data-type="${r.type}" data-id="${r.id}">
+            <div class="card-header">
+              <span class="card-title">${r.title}</span>
+              ${r.amount !== undefined ? `<span class="card-balance ${r.amount >= 0 ? 'positive' : 'negative'}">${formatMoney(r.amount)}</span>` : ''}
+            </div>
+            <div class="card-body">${r.subtitle}</div>
+          </div>`).join('')}
+      </div>`).join('');
+
+    this.appContent.querySelectorAll<HTMLElement>('.search-result').forEach(card => card.addEventListener('click', e => {
+      e.stopPropagation();
+      this.openSearchResult(card.dataset.type as EntityType, card.dataset.id!);
+    }));
+  }
+
+  // Opens the detail page that owns a search result, or its edit form.
+  private async openSearchResult(type: EntityType, id: string): Promise<void> {
+    document.body.classList.remove('searching');
+    this.currentClientId = null;
+    this.currentCreditorId = null;
+    switch (type) {
+      case 'clients': this.currentPage = 'clients'; this.currentClientId = id; break;
+      case 'creditors': this.currentPage = 'creditors'; this.currentCreditorId = id; break;
+      case 'transactions': this.currentPage = 'clients'; this.currentClientId = (await this.store.getTransaction(id))?.clientId || null; break;
+      case 'creditorTransactions': this.currentPage = 'creditors'; this.currentCreditorId = (await this.store.getCreditorTransaction(id))?.creditorId || null; break;
+      case 'products': this.currentPage = 'inventory'; break;
+      case 'sales': this.currentPage = 'sales'; this.currentSaleMonth = 'all'; break;
+      case 'expenses': this.currentPage = 'expenses'; this.currentExpenseMonth = 'all'; break;
+    }
+    await this.render();
+    if (type === 'products') this.renderProductForm(await this.store.getProduct(id));
+    if (type === 'sales') this.renderSaleForm(await this.store.getSale(id));
+    if (type === 'expenses') this.renderExpenseForm(await this.store.getExpense(id));
+  }
+
+  private updateActiveNav(): void {
+    document.querySelectorAll('.nav-btn').forEach(btn => {
+      btn.classList.toggle('active', btn.getAttribute('data-page') === this.currentPage);
+    });
+  }
+
+  private async render(): Promise<void> {
+    if (this.store.isLocked) return;
+    this.updateActiveNav();
+    if (this.currentClientId) {
+      if (this.currentPage === 'statement') await this.renderStatementPage(this.currentClientId);
+      else await this.renderClientDetailPage(this.currentClientId);
+    } else if (this.currentCreditorId) {
+        await this.renderCreditorDetailPage(this.currentCreditorId);
+    } else {
+      switch (this.currentPage) {
+        case 'dashboard': await this.renderDashboardPage(); break;
+        case 'clients': await this.renderClientsPage(); break;
+        case 'sales': await this.renderSalesPage(); break;
+        case 'campaigns': await this.renderCampaignsPage(); break;
+        case 'campaign': await this.renderCampaignPage(this.currentCampaignId!); break;
+        case 'expenses': await this.renderExpensesPage(); break;
+        case 'categories': await this.renderCategoriesPage(); break;
+        case 'recurring': await this.renderRecurringPage(); break;
+        case 'inventory': await this.renderInventoryPage(); break;
+        case 'reorder': await this.renderReorderPage(); break;
+        case 'creditors': await this.renderCreditorsPage(); break;
+        case 'help': await this.renderHelpPage(); break;
+        case 'backup': await this.renderBackupPage(); break;
+        case 'sync': await this.renderSyncPage(); break;
+        case 'trash': await this.renderTrashPage(); break;
+        case 'settings': await this.renderSettingsPage(); break;
+        case 'profit': await this.renderProfitPage(); break;
+        case 'aging': await this.renderAgingPage(); break;
+        case 'orders': await this.renderOrdersPage(); break;
+      }
+    }
+    this.syncUrl();
+  }
+
+  // --- PAGE RENDERERS ---
+
+  private async renderDashboardPage(): Promise<void> {
+    const [sales, transactions, expenses, creditorTransactions] = await Promise.all([
+      this.store.getSales(), this.store.getTransactions(), this.store.getExpenses(), this.store.getCreditorTransactions(),
+    ]);
+    const currentMonth = new Date().toISOString().substring(0, 7);
+    const summaries = computeMonthlySummaries(monthRange(currentMonth, 12), sales, transactions, expenses, creditorTransactions);
+    const month = summaries[summaries.length - 1];
+    const receivables = await this.store.getTotalClientDebt();
+    const payables = [...(await this.store.getCreditorBalances()).values()].reduce((sum, b) => b > 0 ? sum + b : sum, 0);
+    const income = summaries.map(m => m.sales + m.clientPayments);
+
+    const row = (label: string, amount: number, className = '') =>
+      `<div class="dashboard-row"><span>${label}</span><span class="${className}">${formatMoney(amount)}</span></div>`;
+
+    const content = `
+      <div class="summary-card">
+          <span>Flujo de Caja Neto (${formatMonth(currentMonth)})</span>
+          <span class="card-balance ${month.netCashFlow >= 0 ? 'positive' : 'negative'}">${formatMoney(month.netCashFlow)}</span>
+      </div>
+      <div class="dashboard-grid">
+        <div class="card dashboard-link" data-page="clients"><div class="card-body">Por Cobrar</div><span class="card-balance positive">${formatMoney(receivables)}</span></div>
+        <div class="card dashboard-link" data-page="creditors"><div class="card-body">Por Pagar</div><span class="card-balance negative">${formatMoney(payables)}</span></div>
+      </div>
+      <div class="card">
+        <div class="card-header"><span class="card-title">Entradas del Mes</span></div>
+        ${row('Ventas generales', month.sales, 'positive')}
+        ${row('Abonos de clientes', month.clientPayments, 'positive')}
+        ${row('Fiado a clientes', month.clientCharges)}
+      </div>
+      <div class="card" style="border-left-color: var(--debt-color);">
+        <div class="card-header"><span class="card-title">Salidas del Mes</span></div>
+        ${row('Gastos', month.expenses, 'negative')}
+        ${row('Pagos a acreedores', month.creditorPayments, 'negative')}
+        ${row('Compras a crédito', month.creditorPurchases)}
+      </div>
+      <div class="card">
+        <div class="card-header"><span class="card-title">Entradas y Salidas (12 meses)</span></div>
+        ${this.renderBarChart(summaries.map(m => m.month.substring(5)), [
+          { label: 'Entradas', color: 'var(--success-color)', values: income },
+          { label: 'Salidas', color: 'var(--debt-color)', values: summaries.map((m, i) => income[i] - m.netCashFlow) },
+        ])}
+      </div>
+      <div class="card">
+        <div class="card-header"><span class="card-title">Flujo de Caja Neto (12 meses)</span></div>
+        ${this.renderBarChart(summaries.map(m => m.month.substring(5)), [
+          { label: 'Flujo neto', color: 'var(--primary-color)', values: summaries.map(m => m.netCashFlow) },
+        ])}
+      </div>`;
+
+    this.headerTitle.textContent = 'Resumen';
+    this.appContent.innerHTML = content;
+
+    this.appContent.querySelectorAll<HTMLElement>('.dashboard-link').forEach(link => link.addEventListener('click', () => {
+        if (link.dataset.page === 'clients') this.currentClientFilter = 'debt';
+        else this.currentCreditorFilter = 'debt';
+        this.currentPage = link.dataset.page as Page;
+        this.render();
+    }));
+  }
+
+  // Grouped bar chart drawn as inline SVG, so it needs no library and works offline.
+  private renderBarChart(labels: string[], series: { label: string; color: string; values: number[] }[]): string {
+    const width = 320, height = 160, top = 10, bottom = 20;
+    const all = series.flatMap(s => s.values);
+    const max = Math.max(0, ...all), min = Math.min(0, ...all);
+    const scale = (height - top - bottom) / ((max - min) || 1);
+    const zeroY = top + max * scale;
+    const slot = width / labels.length;
+    const barWidth = (slot - 4) / series.length;
+
+    const bars = series.map((s, si) => s.values.map((value, i) => {
+        const x = i * slot + 2 + si * barWidth;
+        const y = value >= 0 ? zeroY - value * scale : zeroY;
+        const title = `${s.label}: ${formatMoney(value)}`;
+        return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${Math.abs(value * scale).toFixed(1)}" fill="${s.color}"><title>${title}</title></rect>`;
+    }).join('')).join('');
+    const axis = labels.map((label, i) => `<text x="${(i * slot + slot / 2).toFixed(1)}" y="${height - 5}" text-anchor="middle">${label}</text>`).join('');
+    const legend = series.length > 1
+      ? `<div class="chart-legend">${series.map(s => `<span><i style="background: ${s.color}"></i>${s.label}</span>`).join('')}</div>`
+      : '';
+
+    return `
+      <svg class="chart" viewBox="0 0 ${width} ${height}" role="img">
+        <line x1="0" x2="${width}" y1="${zeroY.toFixed(1)}" y2="${zeroY.toFixed(1)}" class="chart-zero" />
+        ${bars}${axis}
+      </svg>${legend}`;
+  }
+
+  private async renderClientsPage(): Promise<void> {
+    const clients = await this.store.getClients();
+    const balances = await this.store.getClientBalances();
+    const totalDebt = await this.store.getTotalClientDebt();
+    const formattedTotalDebt = formatMoney(totalDebt);
+    const overdue = await this.store.getOverdueInstallmentCounts();
+
+    const filteredClients = clients.filter(client => {
+        if (this.currentClientFilter === 'all') return true;
+        const balance = balances.get(client.id) || 0;
+        if (this.currentClientFilter === 'debt') return balance > 0;
+        if (this.currentClientFilter === 'credit') return balance < 0;
+        if (this.currentClientFilter === 'overdue') return overdue.has(client.id);
+        return false;
+    });
+
+    let content = `
+      <select id="client-filter" class="month-select">
+        <option value="all" ${this.currentClientFilter === 'all' ? 'selected' : ''}>Mostrar Todos</option>
+        <option value="debt" ${this.currentClientFilter === 'debt' ? 'selected' : ''}>Con Deuda</option>
+        <option value="credit" ${this.currentClientFilter === 'credit' ? 'selected' : ''}>Con Saldo a Favor</option>
+        <option value="overdue" ${this.currentClientFilter === 'overdue' ? 'selected' : ''}>Vencidos</option>
+      </select>
+      <div class="page-actions">
+        <button id="open-orders-btn" class="btn btn-secondary"><i class="fas fa-clipboard-list"></i> Pedidos</button>
+        <button class="btn btn-secondary open-aging-btn" data-aging="clients"><i class="fas fa-hourglass-half"></i> Antigüedad de cartera</button>
+      </div>
+      <div class="summary-card">
+        <span>Deuda Total de Clientes</span>
+        <span class="total-debt">${formattedTotalDebt}</span>
+      </div>
+      <div class="item-list">`;
+    
+    if (filteredClients.length === 0) {
+      content += `
+        <div class="empty-state">
+          <i class="fas fa-users-slash"></i>
+          <p>${clients.length > 0 ? 'No hay clientes que coincidan con el filtro.' : 'No hay clientes todavía.'}</p>
+          ${clients.length > 0 ? '' : "<p>Toca el botón '+' para agregar uno.</p>"}
+        </div>`;
+    } else {
+        filteredClients.forEach(client => {
+            const balance = balances.get(client.id) || 0;
+            const balanceClass = balance > 0 ? 'negative' : balance < 0 ? 'positive' : '';
+            const formattedBalance = formatMoney(balance);
+            content += `
+            <div class="card client-card" data-client-id="${client.id}">
+                <div class="card-header">
+                <span class="card-title">${client.name}${overdue.has(client.id) ? ` <span class="badge badge-danger">${overdue.get(client.id)} ${overdue.get(client.id) === 1 ? 'cuota vencida' : 'cuotas vencidas'}</span>` : ''}</span>
+                <span class="card-balance ${balanceClass}">${formattedBalance}</span>
+                </div>
+                <div class="card-body">${client.phone}</div>
+            </div>`;
+        });
+    }
+    content += '</div>';
+    
+    this.headerTitle.textContent = 'Clientes';
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Cliente"><i class="fas fa-plus"></i></button>';
+    
+    document.getElementById('client-filter')?.addEventListener('change', (e) => {
+        this.currentClientFilter = (e.target as HTMLSelectElement).value as BalanceFilter | 'overdue';
+        this.render();
+    });
+  }
+
+  private async renderClientDetailPage(clientId: string): Promise<void> {
+    const client = await this.store.getClient(clientId);
+    if (!client) { this.currentClientId = null; return this.render(); }
+
+    const transactions = await this.store.getTransactionsForClient(clientId);
+    const openOrders = (await this.store.getOrdersForClient(clientId)).filter(o => o.status !== 'delivered').sort((a, b) => b.date.localeCompare(a.date));
+    const balance = sumMoney(transactions.map(t => t.amount));
+    const balanceClass = balance > 0 ? 'negative' : balance < 0 ? 'positive' : '';
+    const formattedBalance = formatMoney(balance);
+    const installments = computeInstallmentStatus(transactions, new Date().toISOString().split('T')[0]);
+    const openInstallments = installments.filter(s => s.amount > s.paid);
+
+    let content = `
+      <div style="margin-bottom: 20px;">
+        <h3>Saldo Total: <span class="${balanceClass}">${formattedBalance}</span></h3>
+        <p>Teléfono: ${client.phone}</p>
+        <div class="client-actions">
+            <button class="btn btn-secondary" data-action="edit" data-type="clients" data-id="${client.id}">Editar Cliente</button>
+            <button class="btn btn-danger" data-action="delete" data-type="clients" data-id="${client.id}">Eliminar Cliente</button>
+            <button class="btn btn-secondary" data-action="history" data-id="${client.id}"><i class="fas fa-clock-rotate-left"></i> Historial de cambios</button>
+            <button id="open-statement-btn" class="btn btn-secondary"><i class="fas fa-file-invoice"></i> Estado de cuenta</button>
+            <button id="new-order-btn" class="btn btn-secondary"><i class="fas fa-clipboard-list"></i> Nuevo pedido</button>
+        </div>
+      </div>
+      ${openOrders.length ? `
+      <h4>Pedidos</h4>
+      <div class="item-list">${openOrders.map(o => this.renderOrderCard(o)).join('')}</div>` : ''}
+      ${openInstallments.length ? `
+      <h4>Cuotas Pendientes</h4>
+      <div class="card">
+        ${openInstallments.map(s => `
+          <div class="dashboard-row">
+            <span>${s.transaction.description} - Cuota ${s.number}/${s.transaction.installmentPlan!.count}<br>
+              <small>Vence ${formatDate(s.dueDate)}${s.overdue ? ' <span class="badge badge-danger">Vencida</span>' : ''}</small></span>
+            <span class="${s.overdue ? 'negative' : ''}">${formatMoney(s.amount - s.paid)}</span>
+          </div>`).join('')}
+      </div>` : ''}
+      <h4>Transacciones</h4>
+      <div class="item-list">`;
+
+    if (transactions.length === 0) {
+        content += `<div class="empty-state"><p>No hay transacciones.</p></div>`;
+    } else {
+        transactions.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(t => {
+            const amountClass = t.amount >= 0 ? 'positive' : 'negative';
+            const formattedAmount = formatMoney(t.amount);
+            content += `
+            <div class="card">
+                <div class="card-header">
+                    <span class="card-title">${formatDate(t.date)}</span>
+                    <div>
+                        <span class="card-balance ${amountClass}">${formattedAmount}</span>
+                        <button class="icon-btn" data-action="edit" data-type="transaction" data-id="${t.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                        <button class="icon-btn icon-btn-delete" data-action="delete" data-type="transaction" data-id="${t.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+                    </div>
+                </div>
+                <div class="card-body">${t.description}${t.installmentPlan ? ` <span class="badge">${t.installmentPlan.count} cuotas ${INSTALLMENT_FREQUENCY_LABELS[t.installmentPlan.frequency].toLowerCase()}es</span>` : ''}${this.renderSaleItems(t.items)}</div>
+            </div>`;
+        });
+    }
+
+    content += '</div>'
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>${client.name}</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentClientId = null;
+    }));
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Transacción"><i class="fas fa-plus"></i></button>';
+
+    document.getElementById('open-statement-btn')?.addEventListener('click', () => {
+        this.currentPage = 'statement';
+        this.render();
+    });
+    document.getElementById('new-order-btn')?.addEventListener('click', () => this.renderOrderForm());
+    this.setupOrderActions();
+  }
+
+  private async renderStatementPage(clientId: string): Promise<void> {
+    const client = await this.store.getClient(clientId);
+    if (!client) { this.currentClientId = null; this.currentPage = 'clients'; return this.render(); }
+
+    const statement = buildClientStatement(await this.store.getTransactionsForClient(clientId), this.statementFrom, this.statementTo);
+    const rows = statement.lines.map(({ transaction: t, balance }) => `
+        <tr><td>${formatDate(t.date)}</td><td>${t.description}</td>
+        <td class="${t.amount >= 0 ? 'negative' : 'positive'}">${formatMoney(t.amount)}</td><td>${formatMoney(balance)}</td></tr>`).join('');
+
+    const content = `
+      <div class="statement-controls no-print">
+        <div class="form-group"><label for="statement-from">Desde</label><input type="date" id="statement-from" value="${this.statementFrom}"></div>
+        <div class="form-group"><label for="statement-to">Hasta</label><input type="date" id="statement-to" value="${this.statementTo}"></div>
+      </div>
+      <div class="client-actions no-print">
+        <button id="print-statement-btn" class="btn btn-secondary"><i class="fas fa-print"></i> Imprimir</button>
+        ${client.phone ? '<button id="whatsapp-statement-btn" class="btn btn-secondary"><i class="fa-brands fa-whatsapp"></i> WhatsApp</button>' : ''}
+        ${'share' in navigator ? '<button id="share-statement-btn" class="btn btn-secondary"><i class="fas fa-share-nodes"></i> Compartir</button>' : ''}
+      </div>
+      <div class="statement">
+        ${activeSettings.businessName ? `<h2>${activeSettings.businessName}</h2>` : ''}
+        ${activeSettings.businessPhone ? `<p>Tel. ${activeSettings.businessPhone}</p>` : ''}
+        <h3>Estado de Cuenta</h3>
+        <p>${client.name}${client.phone ? ` - ${client.phone}` : ''}<br>Del ${formatDate(statement.from)} al ${formatDate(statement.to)}</p>
+        <table class="data-table">
+          <thead><tr><th>Fecha</th><th>Descripción</th><th>Monto</th><th>Saldo</th></tr></thead>
+          <tbody>
+            <tr><td></td><td><strong>Saldo anterior</strong></td><td></td><td>${formatMoney(statement.openingBalance)}</td></tr>
+            ${rows || '<tr><td></td><td>Sin movimientos en el periodo.</td><td></td><td></td></tr>'}
+          </tbody>
+        </table>
+        <h3>Saldo al ${formatDate(statement.to)}: <span class="${statement.closingBalance > 0 ? 'negative' : 'positive'}">${formatMoney(statement.closingBalance)}</span></h3>
+      </div>`;
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Estado de Cuenta</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'clients';
+    }));
+    this.appContent.innerHTML = content;
+
+    const onRangeChange = () => {
+        const from = (document.getElementById('statement-from') as HTMLInputElement).value;
+        const to = (document.getElementById('statement-to') as HTMLInputElement).value;
+        if (!from || !to || from > to) return;
+        this.statementFrom = from;
+        this.statementTo = to;
+        this.render();
+    };
+    document.getElementById('statement-from')?.addEventListener('change', onRangeChange);
+    document.getElementById('statement-to')?.addEventListener('change', onRangeChange);
+    document.getElementById('print-statement-btn')?.addEventListener('click', () => window.print());
+    document.getElementById('whatsapp-statement-btn')?.addEventListener('click', () => {
+        const text = this.statementText(client, statement);
+        window.open(`https://wa.me/${whatsAppNumber(client.phone, activeSettings.countryCode)}?text=${encodeURIComponent(text)}`, '_blank');
+    });
+    document.getElementById('share-statement-btn')?.addEventListener('click', () => {
+        navigator.share({ title: `Estado de cuenta - ${client.name}`, text: this.statementText(client, statement) })
+            .catch(() => { /* dismissed by the user */ });
+    });
+  }
+
+  // Plain-text statement summary for WhatsApp or the share sheet.
+  private statementText(client: Client, statement: ClientStatement): string {
+    const lines = [
+        `Hola ${client.name}, este es su estado de cuenta del ${formatDate(statement.from)} al ${formatDate(statement.to)}:`,
+        '',
+        `Saldo anterior: ${formatMoney(statement.openingBalance)}`,
+        ...statement.lines.map(({ transaction: t }) => `${formatDate(t.date)} ${t.description}: ${t.amount >= 0 ? '+' : ''}${formatMoney(t.amount)}`),
+        '',
+        statement.closingBalance > 0 ? `Saldo pendiente: ${formatMoney(statement.closingBalance)}` : statement.closingBalance < 0
+            ? `Saldo a su favor: ${formatMoney(-statement.closingBalance)}` : 'Está al día. ¡Gracias!',
+    ];
+    const signature = [activeSettings.businessName, activeSettings.businessPhone].filter(Boolean).join(' - ');
+    if (signature) lines.push('', signature);
+    return lines.join('\n');
+  }
+
+  private async renderSalesPage(): Promise<void> {
+    const sales = await this.store.getSales();
+    const months = [...new Set(sales.map(s => s.date.substring(0, 7)))].sort().reverse();
+    if (this.currentSaleMonth !== 'all' && !months.includes(this.currentSaleMonth)) {
+        this.currentSaleMonth = 'all';
+    }
+    const filteredSales = this.currentSaleMonth === 'all' 
+      ? sales 
+      : sales.filter(s => s.date.startsWith(this.currentSaleMonth));
+    const totalSales = sumMoney(filteredSales.map(s => s.amount));
+    const formattedTotalSales = formatMoney(totalSales);
+    let monthOptions = '<option value="all">Todos los Meses</option>';
+    months.forEach(month => {
+        monthOptions += `<option value="${month}" ${this.currentSaleMonth === month ? 'selected' : ''}>${formatMonth(month)}</option>`;
+    });
+
+    let content = `
+      <select id="month-filter-sales" class="month-select">${monthOptions}</select>
+      <div class="page-actions">
+        <button id="open-campaigns-btn" class="btn btn-secondary"><i class="fas fa-book-open"></i> Campañas</button>
+        <button id="open-profit-btn" class="btn btn-secondary"><i class="fas fa-chart-line"></i> Rentabilidad</button>
+      </div>
+      <div class="summary-card">
+          <span>Total Ventas (Selección)</span>
+          <span class="card-balance positive">${formattedTotalSales}</span>
+      </div>
+      <div class="item-list">`;
+
+    if (filteredSales.length === 0) {
+      content += `<div class="empty-state"><p>No hay ventas registradas${this.currentSaleMonth !== 'all' ? ' para este mes' : ''}.</p></div>`;
+    } else {
+        filteredSales.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(sale => {
+            const formattedAmount = formatMoney(sale.amount);
+            content += `
+            <div class="card">
+                <div class="card-header">
+                    <span class="card-title">${formatDate(sale.date)}</span>
+                    <div>
+                      <span class="card-balance positive">${formattedAmount}</span>
+                      <button class="icon-btn" data-action="edit" data-type="sales" data-id="${sale.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                      <button class="icon-btn icon-btn-delete" data-action="delete" data-type="sales" data-id="${sale.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+                    </div>
+                </div>
+                <div class="card-body">${sale.description}${this.renderSaleItems(sale.items)}</div>
+            </div>`;
+        });
+    }
+    content += '</div>';
+
+    this.headerTitle.textContent = 'Ventas Generales';
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Venta"><i class="fas fa-plus"></i></button>';
+
+    document.getElementById('month-filter-sales')?.addEventListener('change', (e) => {
+        this.currentSaleMonth = (e.target as HTMLSelectElement).value;
+        this.render();
+    });
+    document.getElementById('open-profit-btn')?.addEventListener('click', () => {
+        this.currentPage = 'profit';
+        this.render();
+    });
+    document.getElementById('open-campaigns-btn')?.addEventListener('click', () => {
+        this.currentPage = 'campaigns';
+        this.render();
+    });
+  }
+
+  private async renderCampaignsPage(): Promise<void> {
+    const [campaigns, creditors] = await Promise.all([this.store.getCampaigns(), this.store.getCreditors()]);
+    const today = new Date().toISOString().split('T')[0];
+    let content = '<div class="item-list">';
+    if (campaigns.length === 0) {
+      content += `<div class="empty-state"><i class="fas fa-book-open"></i><p>No hay campañas. Crea una para agrupar las ventas y compras de cada catálogo.</p></div>`;
+    } else {
+      campaigns.sort((a, b) => b.startDate.localeCompare(a.startDate)).forEach(campaign => {
+        content += `
+          <div class="card campaign-card" data-id="${campaign.id}">
+            <div class="card-header">
+              <span class="card-title">${campaignName(campaign, creditors)}</span>
+              <div>
+                <button class="icon-btn" data-action="edit" data-type="campaigns" data-id="${campaign.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                <button class="icon-btn icon-btn-delete" data-action="delete" data-type="campaigns" data-id="${campaign.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+              </div>
+            </div>
+            <div class="card-body">${formatDate(campaign.startDate)} – ${formatDate(campaign.closeDate)} · ${campaignStatus(campaign, today)}</div>
+          </div>`;
+      });
+    }
+    content += '</div>';
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Campañas</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'sales';
+    }));
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Campaña"><i class="fas fa-plus"></i></button>';
+    this.appContent.querySelectorAll<HTMLElement>('.campaign-card').forEach(card => card.addEventListener('click', e => {
+        if ((e.target as HTMLElement).closest('.icon-btn')) return;
+        this.currentPage = 'campaign';
+        this.currentCampaignId = card.dataset.id!;
+        this.render();
+    }));
+  }
+
+  private async renderCampaignPage(campaignId: string): Promise<void> {
+    const [campaign, creditors, clients, sales, transactions, creditorTransactions] = await Promise.all([
+      this.store.getCampaign(campaignId), this.store.getCreditors(), this.store.getClients(),
+      this.store.getSales(), this.store.getTransactions(), this.store.getCreditorTransactions(),
+    ]);
+    const goBack = () => this.navigateBack(() => {
+        this.currentPage = 'campaigns';
+    });
+    if (!campaign) {
+        goBack();
+        return;
+    }
+    const summary = computeCampaignSummary(campaign, sales, transactions, creditorTransactions);
+    const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+    const clientNames = new Map(clients.map(c => [c.id, c.name]));
+    const saleRows = [
+      ...sales.filter(s => s.campaignId === campaign.id).map(s => ({ date: s.date, who: 'Venta general', description: s.description, amount: s.amount })),
+      ...transactions.filter(t => t.amount > 0 && t.campaignId === campaign.id)
+        .map(t => ({ date: t.date, who: clientNames.get(t.clientId) || '', description: t.description, amount: t.amount })),
+    ].sort(byDate);
+    const purchaseRows = creditorTransactions.filter(t => t.amount > 0 && t.campaignId === campaign.id).sort(byDate);
+    const row = (label: string, value: string, className = '') => `<div class="dashboard-row"><span>${label}</span><span class="${className}">${value}</span></div>`;
+
+    const content = `
+      <div class="card">
+        <div class="card-body">${formatDate(campaign.startDate)} – ${formatDate(campaign.closeDate)} · ${campaignStatus(campaign, new Date().toISOString().split('T')[0])}</div>
+        ${row('Unidades vendidas', summary.units.toString())}
+        ${row('Ventas', formatMoney(summary.revenue), 'positive')}
+        ${row('Cobrado a clientes', formatMoney(summary.collected))}
+        ${row('Pendiente de clientes', formatMoney(summary.pending), summary.pending > 0 ? 'negative' : '')}
+        ${row('Compras al proveedor', formatMoney(summary.purchases))}
+        ${row('Por pagar al proveedor', formatMoney(summary.supplierPending), summary.supplierPending > 0 ? 'negative' : '')}
+      </div>
+      <div class="summary-card"><span>Ganancia</span><span class="card-balance ${summary.profit >= 0 ? 'positive' : 'negative'}">${formatMoney(summary.profit)}</span></div>
+      <div class="card">
+        <div class="card-header"><span class="card-title">Ventas y cargos</span></div>
+        ${saleRows.length ? `<table class="data-table"><tbody>${saleRows.map(r => `<tr><td>${formatDate(r.date)}<br><small>${r.who}</small></td><td>${r.description}</td><td>${formatMoney(r.amount)}</td></tr>`).join('')}</tbody></table>`
+                          : '<p class="card-body">Todavía no hay ventas en esta campaña.</p>'}
+      </div>
+      <div class="card">
+        <div class="card-header"><span class="card-title">Compras al proveedor</span></div>
+        ${purchaseRows.length ? `<table class="data-table"><tbody>${purchaseRows.map(t => `<tr><td>${formatDate(t.date)}</td><td>${t.description}</td><td>${formatMoney(t.amount)}</td></tr>`).join('')}</tbody></table>`
+                              : '<p class="card-body">Todavía no hay compras en esta campaña.</p>'}
+      </div>`;
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>${campaignName(campaign, creditors)}</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', goBack);
+    this.appContent.innerHTML = content;
+  }
+
+  private renderProfitTable(title: string, rows: ProfitRow[], formatLabel: (row: ProfitRow) => string = row => row.label): string {
+    const body = rows.map(row => `
+        <tr><td>${formatLabel(row)}${row.missingCost ? ' <span class="badge" title="Algunas ventas no tienen costo registrado">sin costo</span>' : ''}<br><small>${row.units} uds.</small></td>
+        <td>${formatMoney(row.revenue, 0)}</td><td>${formatMoney(row.cost, 0)}</td>
+        <td class="${row.profit >= 0 ? 'positive' : 'negative'}">${formatMoney(row.profit, 0)}<br><small>${row.revenue ? Math.round(row.profit / row.revenue * 100) : 0}%</small></td></tr>`).join('');
+    return `
+      <div class="card">
+        <div class="card-header"><span class="card-title">${title}</span></div>
+        ${rows.length ? `<table class="data-table"><thead><tr><th></th><th>Ventas</th><th>Costo</th><th>Ganancia</th></tr></thead><tbody>${body}</tbody></table>`
+                      : '<p class="card-body">No hay ventas de inventario en este periodo.</p>'}
+      </div>`;
+  }
+
+  private async renderProfitPage(): Promise<void> {
+    const sales = await this.store.getSales();
+    const transactions = await this.store.getTransactions();
+    const months = [...new Set([...sales, ...transactions].map(s => s.date.substring(0, 7)))].sort().reverse();
+    if (this.currentReportMonth !== 'all' && !months.includes(this.currentReportMonth)) {
+        this.currentReportMonth = 'all';
+    }
+    const inMonth = (r: { date: string }) => this.currentReportMonth === 'all' || r.date.startsWith(this.currentReportMonth);
+    const report = computeProfitability(sales.filter(inMonth), transactions.filter(inMonth), await this.store.getProducts(), await this.store.getClients());
+
+    const totals = report.byMonth.reduce((t, row) => ({ revenue: t.revenue + row.revenue, profit: t.profit + row.profit }), { revenue: 0, profit: 0 });
+    const allSales = [...report.salesTotalByMonth.values()].reduce((sum, n) => sum + n, 0);
+    let monthOptions = '<option value="all">Todos los Meses</option>';
+    months.forEach(month => monthOptions += `<option value="${month}" ${this.currentReportMonth === month ? 'selected' : ''}>${formatMonth(month)}</option>`);
+
+    const content = `
+      <select id="month-filter-report" class="month-select">${monthOptions}</select>
+      <div class="summary-card"><span>Total Ventas</span><span class="card-balance positive">${formatMoney(allSales)}</span></div>
+      <div class="summary-card"><span>Ventas de Inventario</span><span>${formatMoney(totals.revenue)}</span></div>
+      <div class="summary-card"><span>Ganancia Bruta</span><span class="card-balance ${totals.profit >= 0 ? 'positive' : 'negative'}">${formatMoney(totals.profit)}</span></div>
+      <div class="item-list">
+        ${this.renderProfitTable('Por Mes', report.byMonth, row => formatMonth(row.key))}
+        ${this.renderProfitTable('Por Producto', report.byProduct)}
+        ${this.renderProfitTable('Por Cliente', report.byClient)}
+      </div>`;
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Rentabilidad</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'sales';
+    }));
+    // No FAB on this page
+    this.appContent.innerHTML = content;
+
+    document.getElementById('month-filter-report')?.addEventListener('change', (e) => {
+        this.currentReportMonth = (e.target as HTMLSelectElement).value;
+        this.render();
+    });
+  }
+
+  private async renderAgingPage(): Promise<void> {
+    const type = this.currentAgingType;
+    const today = new Date().toISOString().split('T')[0];
+    const rows = type === 'clients'
+      ? computeAging(await this.store.getClients(), (await this.store.getTransactions()).map(t => ({ ownerId: t.clientId, date: t.date, amount: t.amount })), today)
+      : computeAging(await this.store.getCreditors(), (await this.store.getCreditorTransactions()).map(t => ({ ownerId: t.creditorId, date: t.date, amount: t.amount })), today);
+    const totals = AGING_BUCKET_LABELS.map((_, i) => rows.reduce((sum, row) => sum + row.buckets[i], 0));
+    const grandTotal = totals.reduce((sum, n) => sum + n, 0);
+
+    const body = rows.map(row => `
+        <tr class="aging-row" data-id="${row.id}"><td>${row.name}</td>
+        ${row.buckets.map((b, i) => `<td class="${b > 0 && i > 0 ? 'negative' : ''}">${b ? formatMoney(b, 0) : '—'}</td>`).join('')}
+        <td><strong>${formatMoney(row.total, 0)}</strong></td></tr>`).join('');
+
+    const content = `
+      <select id="aging-type" class="month-select">
+        <option value="clients" ${type === 'clients' ? 'selected' : ''}>Lo que me deben (Clientes)</option>
+        <option value="creditors" ${type === 'creditors' ? 'selected' : ''}>Lo que debo (Acreedores)</option>
+      </select>
+      <div class="summary-card">
+        <span>${type === 'clients' ? 'Total por Cobrar' : 'Total por Pagar'}</span>
+        <span class="${type === 'clients' ? 'total-debt' : 'total-expense'}">${formatMoney(grandTotal, 0)}</span>
+      </div>
+      ${rows.length === 0 ? `<div class="empty-state"><i class="fas fa-circle-check"></i><p>${type === 'clients' ? 'Ningún cliente tiene deudas pendientes.' : 'No tienes deudas pendientes con acreedores.'}</p></div>` : `
+      <div class="card">
+        <table class="data-table aging-table">
+          <thead><tr><th>${type === 'clients' ? 'Cliente' : 'Acreedor'}</th>${AGING_BUCKET_LABELS.map(label => `<th>${label}</th>`).join('')}<th>Total</th></tr></thead>
+          <tbody>${body}</tbody>
+          <tfoot><tr><td><strong>Total</strong></td>${totals.map(t => `<td><strong>${formatMoney(t, 0)}</strong></td>`).join('')}<td><strong>${formatMoney(grandTotal, 0)}</strong></td></tr></tfoot>
+        </table>
+      </div>`}`;
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Antigüedad de Saldos</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = type;
+    }));
+    this.appContent.innerHTML = content;
+
+    document.getElementById('aging-type')?.addEventListener('change', (e) => {
+        this.currentAgingType = (e.target as HTMLSelectElement).value as 'clients' | 'creditors';
+        this.render();
+    });
+    this.appContent.querySelectorAll<HTMLElement>('.aging-row').forEach(row => row.addEventListener('click', () => {
+        this.currentPage = type;
+        if (type === 'clients') this.currentClientId = row.dataset.id!;
+        else this.currentCreditorId = row.dataset.id!;
+        this.render();
+    }));
+  }
+
+  private renderCategoryLabel(category: ExpenseCategory | undefined): string {
+    return category
+      ? `<i class="fas ${category.icon}" style="color: ${category.color};"></i> ${category.name}`
+      : `<i class="fas ${DEFAULT_CATEGORY_ICON}"></i> Sin categoría`;
+  }
+
+  // Spending per category in one month, with a progress bar for the categories that have a budget.
+  private renderBudgetCard(rows: CategorySpending[], month: string): string {
+    const body = rows.map(({ category, spent, count }) => {
+      if (!category.budget) {
+        return `<div class="budget-row"><div class="dashboard-row"><span>${this.renderCategoryLabel(category)} <small>(${count})</small></span><span>${formatMoney(spent)}</span></div></div>`;
+      }
+      const over = spent > category.budget;
+      const percent = Math.min(100, Math.round(spent / category.budget * 100));
+      return `
+        <div class="budget-row">
+          <div class="dashboard-row"><span>${this.renderCategoryLabel(category)}</span><span class="${over ? 'negative' : ''}">${formatMoney(spent)} / ${formatMoney(category.budget)}</span></div>
+          <div class="budget-bar${over ? ' over' : ''}"><div style="width: ${percent}%; background-color: ${category.color};"></div></div>
+          ${over ? `<small class="negative">Excedido en ${formatMoney(spent - category.budget)}</small>` : ''}
+        </div>`;
+    }).join('');
+    return `
+      <div class="card">
+        <div class="card-header"><span class="card-title">Por Categoría · ${formatMonth(month)}</span></div>
+        ${rows.length ? body : '<p class="card-body">No hay gastos ni presupuestos este mes.</p>'}
+      </div>`;
+  }
+
+  private async renderExpensesPage(): Promise<void> {
+    const expenses = await this.store.getExpenses();
+    const categories = new Map((await this.store.getCategories()).map(c => [c.id, c]));
+    const months = [...new Set(expenses.map(e => e.date.substring(0, 7)))].sort().reverse();
+    if (this.currentExpenseMonth !== 'all' && !months.includes(this.currentExpenseMonth)) {
+        this.currentExpenseMonth = 'all';
+    }
+    const filteredExpenses = this.currentExpenseMonth === 'all' 
+      ? expenses 
+      : expenses.filter(e => e.date.startsWith(this.currentExpenseMonth));
+    const totalExpenses = sumMoney(filteredExpenses.map(e => e.amount));
+    const formattedTotalExpenses = formatMoney(totalExpenses);
+    let monthOptions = '<option value="all">Todos los Meses</option>';
+    months.forEach(month => {
+        monthOptions += `<option value="${month}" ${this.currentExpenseMonth === month ? 'selected' : ''}>${formatMonth(month)}</option>`;
+    });
+    // With "Todos los Meses" selected the budgets are shown for the current month
+    const budgetMonth = this.currentExpenseMonth === 'all' ? new Date().toISOString().substring(0, 7) : this.currentExpenseMonth;
+
+    let content = `
+      <select id="month-filter" class="month-select">${monthOptions}</select>
+      <div class="page-actions">
+        <button id="open-recurring-btn" class="btn btn-secondary"><i class="fas fa-repeat"></i> Recurrentes</button>
+        <button id="open-categories-btn" class="btn btn-secondary"><i class="fas fa-tags"></i> Categorías</button>
+      </div>
+      <div class="summary-card">
+          <span>Total Gastos (Selección)</span>
+          <span class="total-expense">-${formattedTotalExpenses}</span>
+      </div>
+      ${this.renderBudgetCard(computeCategorySpending([...categories.values()], expenses, budgetMonth), budgetMonth)}
+      <div class="item-list">`;
+    if (filteredExpenses.length === 0) {
+      content += `<div class="empty-state"><p>No hay gastos registrados${this.currentExpenseMonth !== 'all' ? ' para este mes' : ''}.</p></div>`;
+    } else {
+        filteredExpenses.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(expense => {
+            const formattedAmount = formatMoney(expense.amount);
+            content += `
+            <div class="card" style="border-left-color: var(--debt-color);">
+                <div class="card-header">
+                    <span class="card-title">${this.renderCategoryLabel(categories.get(expense.categoryId))}</span>
+                    <div>
+                      <span class="card-balance negative">-${formattedAmount}</span>
+                      <button class="icon-btn" data-action="edit" data-type="expenses" data-id="${expense.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                      <button class="icon-btn icon-btn-delete" data-action="delete" data-type="expenses" data-id="${expense.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+                    </div>
+                </div>
+                <div class="card-body">${expense.description} - ${formatDate(expense.date)}</div>
+            </div>`;
+        });
+    }
+    content += '</div>';
+    this.headerTitle.textContent = 'Gastos Personales';
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Gasto"><i class="fas fa-plus"></i></button>';
+    
+    document.getElementById('month-filter')?.addEventListener('change', (e) => {
+        this.currentExpenseMonth = (e.target as HTMLSelectElement).value;
+        this.render();
+    });
+    document.getElementById('open-categories-btn')?.addEventListener('click', () => {
+        this.currentPage = 'categories';
+        this.render();
+    });
+    document.getElementById('open-recurring-btn')?.addEventListener('click', () => {
+        this.currentPage = 'recurring';
+        this.render();
+    });
+  }
+
+  private async renderCategoriesPage(): Promise<void> {
+    const categories = (await this.store.getCategories()).sort((a, b) => a.name.localeCompare(b.name));
+    const counts = new Map<string, number>();
+    (await this.store.getExpenses()).forEach(e => counts.set(e.categoryId, (counts.get(e.categoryId) || 0) + 1));
+
+    let content = `
+      <div class="page-actions"><button id="merge-categories-btn" class="btn btn-secondary" ${categories.length < 2 ? 'disabled' : ''}><i class="fas fa-object-group"></i> Combinar</button></div>
+      <div class="item-list">`;
+    if (categories.length === 0) {
+      content += `<div class="empty-state"><i class="fas fa-tags"></i><p>No hay categorías. Créalas aquí o al registrar un gasto.</p></div>`;
+    } else {
+      categories.forEach(category => {
+        content += `
+          <div class="card" style="border-left-color: ${category.color};">
+            <div class="card-header">
+              <span class="card-title">${this.renderCategoryLabel(category)}</span>
+              <div>
+                <button class="icon-btn" data-action="edit" data-type="categories" data-id="${category.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                <button class="icon-btn icon-btn-delete" data-action="delete" data-type="categories" data-id="${category.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+              </div>
+            </div>
+            <div class="card-body">${counts.get(category.id) || 0} gastos · ${category.budget ? `Presupuesto mensual: ${formatMoney(category.budget)}` : 'Sin presupuesto'}</div>
+          </div>`;
+      });
+    }
+    content += '</div>';
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Categorías de Gastos</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'expenses';
+    }));
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Categoría"><i class="fas fa-plus"></i></button>';
+    document.getElementById('merge-categories-btn')?.addEventListener('click', () => this.renderMergeCategoriesForm(categories, counts));
+  }
+
+  private async renderInventoryPage(): Promise<void> {
+    const products = sortProducts(await this.store.getProducts(), this.currentInventorySort);
+    const outCount = products.filter(p => stockLevel(p) === 'out').length;
+    const lowCount = products.filter(p => stockLevel(p) === 'low').length;
+    const sortOptions = (Object.keys(INVENTORY_SORT_LABELS) as InventorySort[])
+      .map(sort => `<option value="${sort}" ${this.currentInventorySort === sort ? 'selected' : ''}>Ordenar por: ${INVENTORY_SORT_LABELS[sort]}</option>`).join('');
+    let content = `
+      <input type="search" id="inventory-search" class="search-bar" placeholder="Buscar por nombre o código..." aria-label="Buscar producto">
+      <select id="inventory-sort" class="month-select">${sortOptions}</select>
+      <div class="page-actions">
+        <button id="open-reorder-btn" class="btn btn-secondary"><i class="fas fa-cart-flatbed"></i> Reabastecer${outCount + lowCount ? ` (${outCount + lowCount})` : ''}</button>
+      </div>
+      <div class="item-list">`;
+    if (products.length === 0) {
+        content += `<div class="empty-state"><i class="fas fa-box-open"></i><p>No hay productos en el inventario.</p></div>`;
+    } else {
+        if (outCount || lowCount) {
+            content += `<p class="card-body">${[outCount ? `${outCount} agotado(s)` : '', lowCount ? `${lowCount} con poco stock` : ''].filter(Boolean).join(' · ')}</p>`;
+        }
+        products.forEach(p => {
+            const formattedPrice = formatMoney(p.price);
+            const level = stockLevel(p);
+            const badge = level === 'out' ? ' <span class="badge badge-danger">Agotado</span>'
+              : level === 'low' ? ' <span class="badge badge-warning">Poco stock</span>' : '';
+            content += `
+            <div class="card ${level !== 'ok' ? `stock-${level}` : ''}" data-search="${normalizeText(`${p.name} ${p.sku || ''} ${p.description}`)}">
+                <div class="card-header">
+                    <span class="card-title">${p.name} (x${p.quantity})${badge}</span>
+                    <div>
+                      <span class="card-balance positive">${formattedPrice}</span>
+                      <button class="icon-btn" data-action="stock-history" data-id="${p.id}" aria-label="Movimientos"><i class="fas fa-right-left"></i></button>
+                      <button class="icon-btn" data-action="edit" data-type="products" data-id="${p.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                      <button class="icon-btn icon-btn-delete" data-action="delete" data-type="products" data-id="${p.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+                    </div>
+                </div>
+                <div class="card-body">${p.sku ? `<small>Código ${p.sku}</small> ` : ''}${p.description}${p.minStock !== undefined ? ` <small>(mínimo ${p.minStock})</small>` : ''}</div>
+            </div>`;
+        });
+        content += `<div id="inventory-no-match" class="empty-state hidden"><i class="fas fa-magnifying-glass"></i><p>Ningún producto coincide con la búsqueda.</p></div>`;
+    }
+    content += '</div>';
+    this.headerTitle.textContent = 'Inventario';
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Producto"><i class="fas fa-plus"></i></button>';
+
+    // Filters the cards in place so typing doesn't re-render the page and lose the focus
+    document.getElementById('inventory-search')?.addEventListener('input', e => {
+        const query = normalizeText((e.target as HTMLInputElement).value);
+        let visible = 0;
+        this.appContent.querySelectorAll<HTMLElement>('.card[data-search]').forEach(card => {
+            const match = card.dataset.search!.includes(query);
+            card.classList.toggle('hidden', !match);
+            if (match) visible++;
+        });
+        document.getElementById('inventory-no-match')?.classList.toggle('hidden', visible > 0);
+    });
+    document.getElementById('inventory-sort')?.addEventListener('change', e => {
+        this.currentInventorySort = (e.target as HTMLSelectElement).value as InventorySort;
+        this.render();
+    });
+    document.getElementById('open-reorder-btn')?.addEventListener('click', () => {
+        this.currentPage = 'reorder';
+        this.render();
+    });
+  }
+
+  private async renderReorderPage(): Promise<void> {
+    const [products, movements, creditors] = await Promise.all([this.store.getProducts(), this.store.getStockMovements(), this.store.getCreditors()]);
+    // A preferred supplier that was deleted counts as none
+    const creditorIds = new Set(creditors.map(c => c.id));
+    const groups = computeReorder(products.map(p => p.supplierId && !creditorIds.has(p.supplierId) ? { ...p, supplierId: undefined } : p),
+      movements, new Date().toISOString().split('T')[0]);
+
+    let content = `
+      <p class="card-body" style="margin-bottom: 16px;">Productos agotados, en su stock mínimo o que no alcanzan para ${REORDER_COVER_DAYS} días al ritmo de venta de los últimos ${REORDER_WINDOW_DAYS} días.</p>
+      <div class="item-list">`;
+    if (groups.length === 0) {
+        content += `<div class="empty-state"><i class="fas fa-circle-check"></i><p>No hay productos por reabastecer.</p></div>`;
+    } else {
+        groups.forEach(group => {
+            const creditor = creditors.find(c => c.id === group.supplierId);
+            content += `
+            <div class="card">
+                <div class="card-header">
+                    <span class="card-title">${creditor?.name || 'Sin proveedor preferido'}</span>
+                    ${creditor ? `<button class="icon-btn" data-reorder-creditor="${creditor.id}" aria-label="Ver acreedor"><i class="fas fa-arrow-right"></i></button>` : ''}
+                </div>
+                <table class="data-table">
+                  <thead><tr><th>Producto</th><th>Stock</th><th>Vendidos</th><th>Pedir</th></tr></thead>
+                  <tbody>${group.lines.map(line => `
+                    <tr><td>${line.product.name}${line.product.sku ? `<br><small>${line.product.sku}</small>` : ''}</td>
+                      <td class="${stockLevel(line.product) === 'out' ? 'negative' : ''}">${line.product.quantity}${line.product.minStock !== undefined ? `<br><small>mín. ${line.product.minStock}</small>` : ''}</td>
+                      <td>${line.unitsSold}</td><td><strong>${line.suggested}</strong></td></tr>`).join('')}
+                  </tbody>
+                </table>
+                ${!creditor ? '<p class="card-body">Asigna un proveedor preferido a estos productos para agruparlos.</p>' : ''}
+            </div>`;
+        });
+    }
+    content += '</div>';
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Reabastecer</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'inventory';
+    }));
+    // No FAB on this page
+    this.appContent.innerHTML = content;
+    this.appContent.querySelectorAll<HTMLElement>('[data-reorder-creditor]').forEach(btn => btn.addEventListener('click', () => {
+        this.currentPage = 'creditors';
+        this.currentCreditorId = btn.dataset.reorderCreditor!;
+        this.render();
+    }));
+  }
+
+  private async renderCreditorsPage(): Promise<void> {
+    const creditors = await this.store.getCreditors();
+    const balances = await this.store.getCreditorBalances();
+
+    const filteredCreditors = creditors.filter(creditor => {
+        if (this.currentCreditorFilter === 'all') return true;
+        const balance = balances.get(creditor.id) || 0;
+        if (this.currentCreditorFilter === 'debt') return balance > 0; // I owe them
+        if (this.currentCreditorFilter === 'credit') return balance < 0; // They owe me
+        return false;
+    });
+
+    let content = `
+      <select id="creditor-filter" class="month-select">
+        <option value="all" ${this.currentCreditorFilter === 'all' ? 'selected' : ''}>Mostrar Todos</option>
+        <option value="debt" ${this.currentCreditorFilter === 'debt' ? 'selected' : ''}>Con Deuda</option>
+        <option value="credit" ${this.currentCreditorFilter === 'credit' ? 'selected' : ''}>Con Saldo a Favor</option>
+      </select>
+      <div class="page-actions"><button class="btn btn-secondary open-aging-btn" data-aging="creditors"><i class="fas fa-hourglass-half"></i> Antigüedad de deudas</button></div>
+      <div class="item-list">`;
+     if (filteredCreditors.length === 0) {
+      content += `<div class="empty-state"><i class="fas fa-receipt"></i><p>${creditors.length > 0 ? 'No hay acreedores que coincidan con el filtro.' : 'No hay acreedores todavía.'}</p></div>`;
+    } else {
+        filteredCreditors.forEach(c => {
+            const balance = balances.get(c.id) || 0;
+            const balanceClass = balance > 0 ? 'negative' : 'positive';
+            const formattedBalance = formatMoney(balance);
+            content += `
+            <div class="card creditor-card" data-creditor-id="${c.id}">
+                <div class="card-header">
+                <span class="card-title">${c.name}</span>
+                <span class="card-balance ${balanceClass}">${formattedBalance}</span>
+                </div>
+                <div class="card-body">${c.phone}</div>
+            </div>`;
+        });
+    }
+    content += '</div>';
+    this.headerTitle.textContent = 'Acreedores';
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Acreedor"><i class="fas fa-plus"></i></button>';
+
+    document.getElementById('creditor-filter')?.addEventListener('change', (e) => {
+        this.currentCreditorFilter = (e.target as HTMLSelectElement).value as BalanceFilter;
+        this.render();
+    });
+  }
+
+   private async renderCreditorDetailPage(creditorId: string): Promise<void> {
+    const creditor = await this.store.getCreditor(creditorId);
+    if (!creditor) { this.currentCreditorId = null; return this.render(); }
+
+    const transactions = await this.store.getTransactionsForCreditor(creditorId);
+    const balance = sumMoney(transactions.map(t => t.amount));
+    const balanceClass = balance > 0 ? 'negative' : 'positive';
+    const formattedBalance = formatMoney(balance);
+
+    let content = `
+      <div style="margin-bottom: 20px;">
+        <h3>Saldo (Deuda): <span class="${balanceClass}">${formattedBalance}</span></h3>
+        <p>Teléfono: ${creditor.phone}</p>
         <div class="client-actions">
             <button class="btn btn-secondary" data-action="edit" data-type="creditors" data-id="${creditor.id}">Editar Acreedor</button>
             <button class="btn btn-danger" data-action="delete" data-type="creditors" data-id="${creditor.id}">Eliminar Acreedor</button>
+            <button class="btn btn-secondary" data-action="history" data-id="${creditor.id}"><i class="fas fa-clock-rotate-left"></i> Historial de cambios</button>
+        </div>
+      </div>
+      <h4>Historial de Compras/Pagos</h4>
+      <div class="item-list">`;
+
+    if (transactions.length === 0) {
+        content += `<div class="empty-state"><p>No hay transacciones.</p></div>`;
+    } else {
+        transactions.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(t => {
+            const amountClass = t.amount >= 0 ? 'positive' : 'negative';
+            const formattedAmount = formatMoney(t.amount);
+            content += `
+            <div class="card">
+                <div class="card-header">
+                    <span class="card-title">${formatDate(t.date)}</span>
+                    <div>
+                        <span class="card-balance ${amountClass}">${formattedAmount}</span>
+                        <button class="icon-btn" data-action="edit" data-type="creditorTransaction" data-id="${t.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                        <button class="icon-btn icon-btn-delete" data-action="delete" data-type="creditorTransaction" data-id="${t.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+                    </div>
+                </div>
+                <div class="card-body">${t.description}${t.dueDate ? ` <span class="badge">Vence ${formatDate(t.dueDate)}</span>` : ''}</div>
+            </div>`;
+        });
+    }
+
+    content += '</div>'
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>${creditor.name}</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentCreditorId = null;
+    }));
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Compra/Pago"><i class="fas fa-plus"></i></button>';
+  }
+
+  private async renderHelpPage(): Promise<void> {
+    const remindersEnabled = await this.store.getRemindersEnabled();
+    this.headerTitle.textContent = 'Ayuda e Información';
+    const content = `
+      <div class="item-list">
+        <div class="card">
+          <div class="card-header"><span class="card-title"><i class="fas fa-bell" style="margin-right: 8px;"></i> Recordatorios</span></div>
+          <div class="card-body">
+            <p>Recibe avisos en este dispositivo cuando venzan cuotas de clientes o pagos a proveedores, incluso sin conexión.</p>
+            <div class="client-actions">
+              <button id="toggle-reminders-btn" class="btn ${remindersEnabled ? 'btn-secondary' : 'btn-primary'}">${remindersEnabled ? 'Desactivar recordatorios' : 'Activar recordatorios'}</button>
+            </div>
+          </div>
+        </div>
+        <div class="card">
+          <div class="card-header"><span class="card-title">Cómo Instalar esta Aplicación</span></div>
+          <div class="card-body" style="line-height: 1.6;">
+            <p>Puedes instalar esta aplicación en tu dispositivo para un acceso más rápido y para usarla sin conexión a internet.</p>
+          </div>
+        </div>
+        <div class="card">
+          <div class="card-header" style="margin-bottom: 16px;"><span class="card-title"><i class="fab fa-android" style="color: #3DDC84; margin-right: 8px;"></i> Android (Chrome)</span></div>
+          <div class="card-body">
+            <ol style="padding-left: 20px;">
+              <li>Toca el menú de los tres puntos (<i class="fas fa-ellipsis-v" style="width: 1em; text-align: center;"></i>) en la esquina superior derecha.</li>
+              <li>Selecciona <strong>"Instalar aplicación"</strong> o "Agregar a la pantalla principal".</li>
+              <li>Sigue las instrucciones en pantalla.</li>
+            </ol>
+          </div>
+        </div>
+
+        <div class="card">
+          <div class="card-header" style="margin-bottom: 16px;"><span class="card-title"><i class="fab fa-apple" style="color: #A2AAAD; margin-right: 8px;"></i> iPhone / iPad (Safari)</span></div>
+          <div class="card-body">
+            <ol style="padding-left: 20px;">
+              <li>Toca el ícono de Compartir (<i class="fas fa-arrow-up-from-bracket" style="width: 1em; text-align: center;"></i>) en la barra de navegación.</li>
+              <li>Desliza hacia arriba y selecciona <strong>"Agregar a la pantalla de inicio"</strong>.</li>
+              <li>Confirma para añadir el ícono a tu pantalla.</li>
+            </ol>
+          </div>
+        </div>
+
+        <div class="card">
+          <div class="card-header" style="margin-bottom: 16px;"><span class="card-title"><i class="fas fa-desktop" style="margin-right: 8px;"></i> Computadora (Chrome/Edge)</span></div>
+          <div class="card-body">
+            <ol style="padding-left: 20px;">
+              <li>Busca el ícono de instalación (<i class="fas fa-download" style="width: 1em; text-align: center;"></i>) en la parte derecha de la barra de direcciones.</li>
+              <li>Haz clic en él y confirma la instalación.</li>
+              <li>La aplicación se abrirá en su propia ventana.</li>
+            </ol>
+          </div>
+        </div>
+
+        <div class="card">
+          <div class="card-header"><span class="card-title">Acerca de la App</span></div>
+          <div class="card-body" style="color: var(--on-background-color);">
+            <p><strong>Gestión de Ventas y Finanzas v1.0.1</strong></p>
+            <p>Esta es una aplicación local. Todos tus datos se guardan de forma segura únicamente en tu dispositivo y no se envían a ningún servidor.</p>
+            <p>Por eso es importante crear respaldos con frecuencia: si pierdes el teléfono o borras los datos del navegador, solo podrás recuperarlos desde un respaldo.</p>
+            <div class="client-actions">
+              <button id="open-backup-btn" class="btn btn-primary"><i class="fas fa-database"></i> Respaldo de Datos</button>
+              <button id="open-sync-btn" class="btn btn-secondary"><i class="fas fa-right-left"></i> Sincronizar</button>
+              <button id="open-trash-btn" class="btn btn-secondary"><i class="fas fa-trash-can"></i> Papelera</button>
+              <button id="open-settings-btn" class="btn btn-secondary"><i class="fas fa-gear"></i> Ajustes</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+    // No FAB on this page
+    this.appContent.innerHTML = content;
+
+    document.getElementById('open-backup-btn')?.addEventListener('click', () => {
+        this.currentPage = 'backup';
+        this.render();
+    });
+    document.getElementById('open-sync-btn')?.addEventListener('click', () => {
+        this.currentPage = 'sync';
+        this.render();
+    });
+    document.getElementById('open-trash-btn')?.addEventListener('click', () => {
+        this.currentPage = 'trash';
+        this.render();
+    });
+    document.getElementById('open-settings-btn')?.addEventListener('click', () => {
+        this.currentPage = 'settings';
+        this.render();
+    });
+    document.getElementById('toggle-reminders-btn')?.addEventListener('click', () => this.toggleReminders());
+  }
+
+  private async renderSettingsPage(): Promise<void> {
+    const settings = await this.store.getSettings();
+    const currencies = ['COP', 'MXN', 'PEN', 'CLP', 'ARS', 'USD', 'EUR', 'BRL'];
+    const locales: [string, string][] = [
+      ['es-CO', 'Español (Colombia)'], ['es-MX', 'Español (México)'], ['es-PE', 'Español (Perú)'], ['es-CL', 'Español (Chile)'],
+      ['es-AR', 'Español (Argentina)'], ['es-EC', 'Español (Ecuador)'], ['es-ES', 'Español (España)'], ['es-US', 'Español (EE. UU.)'],
+      ['pt-BR', 'Português (Brasil)'], ['en-US', 'English (US)'],
+    ];
+    const dateFormats: [DateFormat, string][] = [['locale', 'Según el idioma'], ['dd/mm/yyyy', 'DD/MM/AAAA'], ['mm/dd/yyyy', 'MM/DD/AAAA'], ['yyyy-mm-dd', 'AAAA-MM-DD']];
+    const options = (values: [string, string][], selected: string) =>
+      values.map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`).join('');
+
+    const content = `
+      <form id="settings-form" class="item-list">
+        <div class="card">
+          <div class="card-header"><span class="card-title">Negocio</span></div>
+          <p class="card-body">Aparece en los estados de cuenta que compartes con tus clientes.</p>
+          <div class="form-group"><label for="businessName">Nombre del Negocio</label><input type="text" id="businessName" name="businessName" value="${settings.businessName}"></div>
+          <div class="form-group"><label for="businessPhone">Teléfono</label><input type="tel" id="businessPhone" name="businessPhone" value="${settings.businessPhone}"></div>
+        </div>
+        <div class="card">
+          <div class="card-header"><span class="card-title">Moneda y Formato</span></div>
+          <div class="form-group"><label for="currency">Moneda</label><input type="text" id="currency" name="currency" list="currency-list" value="${settings.currency}" maxlength="3" required>
+            <datalist id="currency-list">${currencies.map(c => `<option value="${c}">`).join('')}</datalist></div>
+          <div class="form-group"><label for="locale">Idioma y Región</label><select id="locale" name="locale">${options(locales, settings.locale)}</select></div>
+          <div class="form-group"><label for="countryCode">Indicativo del País</label><input type="tel" id="countryCode" name="countryCode" value="${settings.countryCode}" pattern="\\+?[0-9]{1,3}" maxlength="4" placeholder="57">
+            <small>Se agrega a los teléfonos de tus clientes al enviar mensajes por WhatsApp.</small></div>
+          <div class="form-group"><label for="dateFormat">Formato de Fecha</label><select id="dateFormat" name="dateFormat">${options(dateFormats, settings.dateFormat)}</select></div>
+          <div class="form-group"><label for="decimals">Decimales</label><select id="decimals" name="decimals">${options([['', 'Según la moneda'], ['0', 'Sin decimales'], ['2', '2 decimales']], settings.decimals === null ? '' : String(settings.decimals))}</select></div>
+          <p class="card-body">Ejemplo: ${formatMoney(123456750)} · ${formatDate(new Date().toISOString())}</p>
+        </div>
+        <div class="form-actions"><button type="submit" class="btn btn-primary">Guardar</button></div>
+      </form>
+      <div class="item-list" style="margin-top: 16px;">${this.renderSecurityCard()}</div>`;
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Ajustes</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'help';
+    }));
+    this.appContent.innerHTML = content;
+    this.setupSecurityCard();
+
+    const form = document.getElementById('settings-form') as HTMLFormElement;
+    const readForm = (): Settings => {
+        const fd = new FormData(form);
+        const decimals = fd.get('decimals') as string;
+        return {
+            currency: (fd.get('currency') as string).trim().toUpperCase(),
+            locale: fd.get('locale') as string,
+            countryCode: (fd.get('countryCode') as string).replace(/\D/g, ''),
+            dateFormat: fd.get('dateFormat') as DateFormat,
+            decimals: decimals === '' ? null : parseInt(decimals),
+            businessName: (fd.get('businessName') as string).trim(),
+            businessPhone: (fd.get('businessPhone') as string).trim(),
+        };
+    };
+    form.addEventListener('submit', async e => {
+        e.preventDefault();
+        const updated = readForm();
+        const previous = activeSettings;
+        try {
+            applySettings(updated);
+        } catch {
+            applySettings(previous);
+            alert(`La moneda "${updated.currency}" no es válida. Usa un código de 3 letras, por ejemplo COP o USD.`);
+            return;
+        }
+        await this.store.saveSettings(updated);
+        this.showSnackbar('Ajustes guardados');
+        this.render();
+    });
+  }
+
+  private async renderTrashPage(): Promise<void> {
+    const trash = await this.store.getTrash();
+
+    let content = `
+      <p class="card-body" style="margin-bottom: 16px;">Los elementos eliminados se guardan aquí hasta que los restaures o los elimines definitivamente. Al restaurar un cliente o acreedor también vuelven sus transacciones.</p>
+      <div class="item-list">`;
+    if (trash.length === 0) {
+        content += `<div class="empty-state"><i class="fas fa-trash-can"></i><p>La papelera está vacía.</p></div>`;
+    } else {
+        trash.forEach(entry => {
+            content += `
+            <div class="card" style="border-left-color: #777;">
+                <div class="card-header">
+                    <span class="card-title">${this.describeEntity(entry.type, entry.item)}</span>
+                    <div>
+                        <button class="icon-btn" data-trash-action="restore" data-deletion-id="${entry.deletionId}" aria-label="Restaurar"><i class="fas fa-rotate-left"></i></button>
+                        <button class="icon-btn icon-btn-delete" data-trash-action="purge" data-deletion-id="${entry.deletionId}" aria-label="Eliminar definitivamente"><i class="fas fa-xmark"></i></button>
+                    </div>
+                </div>
+                <div class="card-body">${ENTITY_LABELS[entry.type]} · Eliminado el ${formatDateTime(entry.deletedAt)}${entry.children.length ? ` · ${entry.children.length} transacciones incluidas` : ''}</div>
+            </div>`;
+        });
+        content += `<button id="empty-trash-btn" class="btn btn-danger">Vaciar Papelera</button>`;
+    }
+    content += '</div>';
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Papelera</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'help';
+    }));
+    // No FAB on this page
+    this.appContent.innerHTML = content;
+
+    this.appContent.querySelectorAll<HTMLElement>('[data-trash-action]').forEach(btn => btn.addEventListener('click', async () => {
+        const deletionId = btn.dataset.deletionId!;
+        if (btn.dataset.trashAction === 'restore') {
+            try {
+                await this.store.restore(deletionId);
+            } catch (err) {
+                alert((err as Error).message);
+                return;
+            }
+        } else {
+            if (!confirm('¿Eliminar definitivamente? Esta acción no se puede deshacer.')) return;
+            await this.store.purge(deletionId);
+        }
+        this.render();
+    }));
+    document.getElementById('empty-trash-btn')?.addEventListener('click', async () => {
+        if (!confirm(`¿Eliminar definitivamente ${trash.length} elementos? Esta acción no se puede deshacer.`)) return;
+        for (const entry of trash) await this.store.purge(entry.deletionId);
+        this.render();
+    });
+  }
+
+  private async renderBackupPage(): Promise<void> {
+    const schemaVersion = await this.store.getSchemaVersion();
+    const migrationLog = await this.store.getMigrationLog();
+    const migrationBackups = await this.store.getMigrationBackups();
+    const logItems = migrationLog.slice().reverse().map(entry => `
+        <li><strong>v${entry.version}</strong> ${entry.description} (${formatDate(entry.ranAt)})
+          ${entry.changes.length ? `<ul>${entry.changes.map(c => `<li>${c}</li>`).join('')}</ul>` : ' — sin cambios'}</li>`).join('');
+    const backupItems = migrationBackups.map(b => `
+        <li>${formatDateTime(b.createdAt)} — ${b.reason}
+          <button class="icon-btn" data-migration-backup="${b.id}" aria-label="Descargar"><i class="fas fa-download"></i></button></li>`).join('');
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Respaldo</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'help';
+    }));
+
+    const content = `
+      <div class="item-list">
+        <div class="card">
+          <div class="card-header"><span class="card-title">Exportar Respaldo</span></div>
+          <div class="card-body">
+            <p>Descarga un archivo con todos tus clientes, ventas, gastos, productos y acreedores. Guárdalo fuera del teléfono (correo, nube o computadora).</p>
+            <div class="client-actions">
+              <button id="export-backup-btn" class="btn btn-primary"><i class="fas fa-download"></i> Descargar Respaldo</button>
+            </div>
+          </div>
+        </div>
+        <div class="card">
+          <div class="card-header"><span class="card-title">Restaurar Respaldo</span></div>
+          <div class="card-body">
+            <p>Selecciona un archivo de respaldo. Antes de aplicar cualquier cambio verás un resumen de su contenido.</p>
+            <div class="client-actions">
+              <label class="btn btn-secondary" for="backup-file"><i class="fas fa-upload"></i> Elegir Archivo</label>
+              <input type="file" id="backup-file" accept="application/json,.json" class="hidden">
+            </div>
+          </div>
+        </div>
+        <div class="card">
+          <div class="card-header"><span class="card-title">Hojas de Cálculo (CSV)</span></div>
+          <div class="card-body">
+            <p>Exporta una lista para abrirla en Excel o importa registros desde un archivo CSV.</p>
+            <div class="form-group"><label for="csv-entity">Datos</label>
+              <select id="csv-entity">${CSV_ENTITY_TYPES.map(type => `<option value="${type}">${ENTITY_LABELS[type]}</option>`).join('')}</select>
+            </div>
+            <div class="form-group"><label for="csv-decimal">Formato de Números</label>
+              <select id="csv-decimal">
+                <option value=",">Colombiano (1.234,56)</option>
+                <option value=".">Internacional (1234.56)</option>
+              </select>
+            </div>
+            <div class="client-actions">
+              <button id="export-csv-btn" class="btn btn-primary"><i class="fas fa-file-csv"></i> Exportar CSV</button>
+              <label class="btn btn-secondary" for="csv-file"><i class="fas fa-file-import"></i> Importar CSV</label>
+              <input type="file" id="csv-file" accept="text/csv,.csv,.txt" class="hidden">
+            </div>
+          </div>
+        </div>
+        <div class="card">
+          <div class="card-header"><span class="card-title">Versión de los Datos</span><span>v${schemaVersion}</span></div>
+          <div class="card-body">
+            ${logItems ? `<ul class="plain-list">${logItems}</ul>` : '<p>No se han aplicado actualizaciones.</p>'}
+            ${backupItems ? `<p>Copias automáticas tomadas antes de cada actualización:</p><ul class="plain-list">${backupItems}</ul>` : ''}
+          </div>
         </div>
       </div>
-      <h4>Historial de Compras/Pagos</h4>
-      <div class="item-list">`;
+    `;
+    // No FAB on this page
+    this.appContent.innerHTML = content;
+
+    document.getElementById('export-backup-btn')?.addEventListener('click', () => this.exportBackup());
+    this.appContent.querySelectorAll<HTMLElement>('[data-migration-backup]').forEach(btn => btn.addEventListener('click', () => {
+        const backup = migrationBackups.find(b => b.id === btn.dataset.migrationBackup)!;
+        const file = { ...createBackup(backup.data), dataVersion: backup.schemaVersion };
+        this.downloadFile(JSON.stringify(file, null, 2), `respaldo-migracion-v${backup.schemaVersion}-${backup.createdAt.split('T')[0]}.json`, 'application/json');
+    }));
+    const csvEntity = document.getElementById('csv-entity') as HTMLSelectElement;
+    const csvDecimal = document.getElementById('csv-decimal') as HTMLSelectElement;
+    document.getElementById('export-csv-btn')?.addEventListener('click', () =>
+        this.exportCsv(csvEntity.value as CsvEntityType, csvDecimal.value as DecimalSeparator));
+    document.getElementById('csv-file')?.addEventListener('change', async (e) => {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+        const rows = parseCsv(await file.text());
+        if (rows.length < 2) {
+            alert('El archivo no tiene registros. La primera fila debe contener los encabezados.');
+            return;
+        }
+        this.renderCsvMappingForm(csvEntity.value as CsvEntityType, csvDecimal.value as DecimalSeparator, rows);
+    });
+    document.getElementById('backup-file')?.addEventListener('change', async (e) => {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+        try {
+            this.renderRestorePreview(parseBackup(await file.text()));
+        } catch (err) {
+            alert(`No se puede restaurar este archivo.\n\n${(err as Error).message}`);
+        }
+    });
+  }
+
+  private downloadFile(content: string, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async exportCsv(type: CsvEntityType, decimal: DecimalSeparator): Promise<void> {
+    const data = await this.store.exportAll();
+    const items = data[type].filter(item => !item.deletedAt).sort((a, b) => ('date' in a && 'date' in b) ? a.date.localeCompare(b.date) : 0);
+    const lookups = { clients: data.clients as Client[], creditors: data.creditors as Creditor[], categories: data.categories as ExpenseCategory[] };
+    // The BOM makes Excel open the file as UTF-8 so accents display correctly.
+    const csv = '\uFEFF' + entitiesToCsv(type, items, lookups, decimal);
+    this.downloadFile(csv, `${type}-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8');
+  }
+
+  private async renderSyncPage(): Promise<void> {
+    const status = await this.store.getSyncStatus();
+    const conflicts = await this.store.getSyncConflicts();
+
+    let conflictCards = '';
+    conflicts.forEach(conflict => {
+        const local = conflict.local as unknown as Record<string, unknown>;
+        const incoming = conflict.incoming as unknown as Record<string, unknown> | null;
+        const changes = incoming
+            ? Object.keys(AUDIT_FIELD_LABELS).filter(f => JSON.stringify(local[f]) !== JSON.stringify(incoming[f]))
+                .map(f => `<li>${AUDIT_FIELD_LABELS[f]}: ${this.formatAuditValue(f, local[f], true)} (este) · ${this.formatAuditValue(f, incoming[f], true)} (otro)</li>`).join('')
+            : '<li>El otro teléfono lo eliminó definitivamente.</li>';
+        conflictCards += `
+          <div class="card" style="border-left-color: var(--error-color);">
+            <div class="card-header"><span class="card-title">${this.describeEntity(conflict.type, conflict.local)}</span></div>
+            <div class="card-body">${ENTITY_LABELS[conflict.type]} · Modificado en los dos teléfonos
+              <ul class="audit-changes">${changes || '<li>Solo cambiaron datos internos.</li>'}</ul>
+            </div>
+            <div class="client-actions">
+              <button class="btn btn-secondary" data-conflict-id="${conflict.id}" data-keep="local">Conservar el de este teléfono</button>
+              <button class="btn btn-primary" data-conflict-id="${conflict.id}" data-keep="incoming">${incoming ? 'Usar el del otro teléfono' : 'Eliminarlo aquí también'}</button>
+            </div>
+          </div>`;
+    });
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Sincronizar</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'help';
+    }));
+
+    const content = `
+      <div class="item-list">
+        <div class="card">
+          <div class="card-header"><span class="card-title">Enviar Cambios</span></div>
+          <div class="card-body">
+            <p>Descarga un archivo con lo que registraste, modificaste o eliminaste desde la última exportación y envíalo al otro teléfono (por ejemplo, por WhatsApp o correo).</p>
+            <p>Última exportación: ${status.lastExportAt ? formatDateTime(status.lastExportAt) : 'nunca'}</p>
+            <div class="client-actions">
+              <button id="export-changes-btn" class="btn btn-primary"><i class="fas fa-upload"></i> Exportar Cambios</button>
+              <button id="export-all-changes-btn" class="btn btn-secondary"><i class="fas fa-layer-group"></i> Exportar Todo</button>
+            </div>
+            <p>Usa "Exportar Todo" la primera vez o si el otro teléfono no recibió un archivo anterior.</p>
+          </div>
+        </div>
+        <div class="card">
+          <div class="card-header"><span class="card-title">Recibir Cambios</span></div>
+          <div class="card-body">
+            <p>Elige el archivo que exportaste en el otro teléfono. Se conserva la versión más reciente de cada registro; si un registro se modificó en los dos teléfonos podrás elegir cuál conservar.</p>
+            <p>Última importación: ${status.lastImportAt ? formatDateTime(status.lastImportAt) : 'nunca'}</p>
+            <div class="client-actions">
+              <label class="btn btn-secondary" for="changes-file"><i class="fas fa-download"></i> Elegir Archivo</label>
+              <input type="file" id="changes-file" accept="application/json,.json" class="hidden">
+            </div>
+          </div>
+        </div>
+        ${conflicts.length ? `<h3>Conflictos por revisar (${conflicts.length})</h3>${conflictCards}` : ''}
+      </div>
+    `;
+    // No FAB on this page
+    this.appContent.innerHTML = content;
+
+    const exportChanges = async (full: boolean) => {
+        const changeSet = await this.store.exportChanges(full);
+        if (changeSet.records.length === 0 && changeSet.tombstones.length === 0) {
+            alert('No hay cambios nuevos desde la última exportación.');
+            return;
+        }
+        this.downloadFile(JSON.stringify(changeSet), `cambios-gestion-${changeSet.exportedAt.split('T')[0]}.json`, 'application/json');
+        if (confirm('¿Guardaste o enviaste el archivo al otro teléfono?\n\nAcepta solo si el archivo llegó: la próxima exportación incluirá únicamente los cambios posteriores.')) {
+            await this.store.confirmExport(changeSet.exportedAt);
+            this.render();
+        }
+    };
+    document.getElementById('export-changes-btn')?.addEventListener('click', () => exportChanges(false));
+    document.getElementById('export-all-changes-btn')?.addEventListener('click', () => exportChanges(true));
+    document.getElementById('changes-file')?.addEventListener('change', async (e) => {
+        const input = e.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+        try {
+            const result = await this.store.importChanges(parseChangeSet(await file.text()));
+            alert(`Sincronización completada.\n\nActualizados: ${result.written}\nEliminados: ${result.purged}\nSin cambios: ${result.skipped}` +
+                (result.conflicts ? `\n\n${result.conflicts} registros se modificaron en los dos teléfonos. Revísalos abajo.` : ''));
+        } catch (err) {
+            alert(`No se pueden importar los cambios.\n\n${(err as Error).message}`);
+        }
+        this.render();
+    });
+    this.appContent.querySelectorAll<HTMLElement>('[data-conflict-id]').forEach(btn => btn.addEventListener('click', async () => {
+        await this.store.resolveConflict(btn.dataset.conflictId!, btn.dataset.keep as 'local' | 'incoming');
+        this.render();
+    }));
+  }
+
+  private async exportBackup(): Promise<void> {
+    const backup = createBackup(await this.store.exportAll());
+    this.downloadFile(JSON.stringify(backup, null, 2), `respaldo-gestion-${backup.exportedAt.split('T')[0]}.json`, 'application/json');
+  }
+  
+  private renderSaleItems(items?: SaleItem[]): string {
+    if (!items?.length) return '';
+    return `<ul class="sale-items">${items.map(item => `
+        <li><span>${item.quantity}× ${item.name}${item.discount ? ' (desc.)' : ''}</span><span>${formatMoney(saleItemTotal(item))}</span></li>`).join('')}</ul>`;
+  }
+
+  // --- FORM RENDERERS ---
+
+  private renderClientForm(client?: Client): void {
+    const isEditing = !!client;
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Cliente</h2><button class="close-btn">&times;</button></div>
+        <form id="client-form">
+          <input type="hidden" name="id" value="${client?.id || ''}">
+          <div class="form-group"><label for="name">Nombre</label><input type="text" id="name" name="name" value="${client?.name || ''}" required></div>
+          <div class="form-group"><label for="phone">Teléfono</label><input type="tel" id="phone" name="phone" value="${client?.phone || ''}"></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('client-form') as HTMLFormElement;
+    form.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const formData = new FormData(form);
+      const newClient: Omit<Client, 'id'> & {id?: string} = {
+        id: formData.get('id') as string || undefined,
+        name: formData.get('name') as string,
+        phone: formData.get('phone') as string,
+      };
+      await this.store.save('clients', newClient);
+      this.closeModal(); this.render();
+    });
+  }
+  
+  private async renderTransactionForm(transaction?: Transaction): Promise<void> {
+    const isEditing = !!transaction;
+    const [campaigns, creditors] = await Promise.all([this.store.getCampaigns(), this.store.getCreditors()]);
+    const campaignId = isEditing ? transaction.campaignId : activeCampaign(campaigns, new Date().toISOString().split('T')[0])?.id;
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Transacción</h2><button class="close-btn">&times;</button></div>
+        <form id="transaction-form">
+          <input type="hidden" name="id" value="${transaction?.id || ''}">
+          <div class="form-group"><label for="amount">Monto (Use '-' para abonos)</label><input type="number" id="amount" name="amount" step="0.01" value="${transaction ? toMajor(transaction.amount) : ''}" required></div>
+          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${transaction?.description || ''}" required></div>
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${transaction?.date || new Date().toISOString().split('T')[0]}" required></div>
+          ${this.renderCampaignSelect(campaigns, creditors, campaignId, 'Campaña (Cargos, Opcional)')}
+          ${this.renderInstallmentFields(transaction?.installmentPlan)}
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('transaction-form') as HTMLFormElement;
+    this.setupInstallmentFields(form);
+    form.addEventListener('submit', async (e) => {
+        e.preventDefault();
+        const formData = new FormData(form);
+        const amount = this.readMoney(formData, 'amount');
+        if (amount === null) return;
+        const newTransaction: Omit<Transaction, 'id'> & {id?: string} = {
+            ...transaction,
+            id: formData.get('id') as string || undefined,
+            clientId: transaction?.clientId || this.currentClientId!,
+            amount,
+            description: formData.get('description') as string,
+            date: formData.get('date') as string,
+            installmentPlan: amount > 0 ? this.readInstallmentPlan(formData) : undefined,
+            campaignId: amount > 0 && formData.get('campaignId') ? formData.get('campaignId') as string : undefined,
+        };
+        await this.store.save('transactions', newTransaction);
+        this.closeModal(); this.render();
+    });
+  }
+
+  // "Pagar en cuotas" fieldset shared by the client charge and sale forms.
+  private renderInstallmentFields(plan?: InstallmentPlan): string {
+    const frequencyOptions = (Object.keys(INSTALLMENT_FREQUENCY_LABELS) as InstallmentFrequency[])
+      .map(f => `<option value="${f}" ${(plan?.frequency || 'monthly') === f ? 'selected' : ''}>${INSTALLMENT_FREQUENCY_LABELS[f]}</option>`).join('');
+    const nextMonth = new Date();
+    nextMonth.setMonth(nextMonth.getMonth() + 1);
+    return `
+      <fieldset class="installment-fields">
+        <legend><label><input type="checkbox" name="installments" ${plan ? 'checked' : ''}> Pagar en cuotas</label></legend>
+        <div class="installment-plan ${plan ? '' : 'hidden'}">
+          <div class="form-group"><label for="installmentCount">Número de cuotas</label><input type="number" id="installmentCount" name="installmentCount" min="2" max="48" value="${plan?.count || 2}"></div>
+          <div class="form-group"><label for="installmentFrequency">Frecuencia</label><select id="installmentFrequency" name="installmentFrequency">${frequencyOptions}</select></div>
+          <div class="form-group"><label for="firstDueDate">Primer vencimiento</label><input type="date" id="firstDueDate" name="firstDueDate" value="${plan?.firstDueDate || nextMonth.toISOString().split('T')[0]}"></div>
+        </div>
+      </fieldset>`;
+  }
+
+  private setupInstallmentFields(form: HTMLFormElement): void {
+    const checkbox = form.querySelector('[name="installments"]') as HTMLInputElement;
+    const fields = form.querySelector('.installment-plan') as HTMLElement;
+    const sync = () => {
+        fields.classList.toggle('hidden', !checkbox.checked);
+        fields.querySelectorAll('input').forEach(input => input.required = checkbox.checked);
+    };
+    checkbox.addEventListener('change', sync);
+    sync();
+  }
+
+  private readInstallmentPlan(fd: FormData): InstallmentPlan | undefined {
+    if (!fd.get('installments')) return undefined;
+    return {
+        count: Math.max(2, parseInt(fd.get('installmentCount') as string) || 2),
+        frequency: fd.get('installmentFrequency') as InstallmentFrequency,
+        firstDueDate: fd.get('firstDueDate') as string,
+    };
+  }
+
+  private async renderSaleForm(sale?: Sale | Transaction): Promise<void> {
+    const isEditing = !!sale;
+    const [clients, campaigns, creditors] = await Promise.all([this.store.getClients(), this.store.getCampaigns(), this.store.getCreditors()]);
+    const campaignId = isEditing ? sale.campaignId : activeCampaign(campaigns, new Date().toISOString().split('T')[0])?.id;
+    let clientOptions = '<option value="">Venta General (Sin Cliente)</option>';
+    clients.forEach(c => clientOptions += `<option value="${c.id}">${c.name}</option>`);
+
+    // When editing, the units already in this sale count as available again.
+    const products = await this.store.getProducts();
+    const reserved = new Map<string, number>();
+    (sale?.items || []).forEach(item => reserved.set(item.productId, (reserved.get(item.productId) || 0) + item.quantity));
+    const available = (productId: string) => (products.find(p => p.id === productId)?.quantity ?? 0) + (reserved.get(productId) || 0);
+    let productOptions = '<option value="">Elegir producto...</option>';
+    // Out-of-stock products stay listed so it is clear they exist, but can't be picked
+    sortProducts(products, 'name').forEach(p => productOptions += available(p.id) > 0
+      ? `<option value="${p.id}">${p.name}${p.sku ? ` [${p.sku}]` : ''} (Stock: ${available(p.id)})</option>`
+      : `<option value="${p.id}" disabled>${p.name}${p.sku ? ` [${p.sku}]` : ''} (Agotado)</option>`);
+
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Venta</h2><button class="close-btn">&times;</button></div>
+        <form id="sale-form">
+          <input type="hidden" name="id" value="${sale?.id || ''}">
+          ${!isEditing ? `
+          <div class="form-group"><label for="clientId">Asociar a Cliente (Opcional)</label><select id="clientId" name="clientId">${clientOptions}</select></div>
+          ` : ''}
+          <fieldset><legend>Vender de Inventario (Opcional)</legend>
+            <div class="cart-add">
+              <select id="cart-product" aria-label="Producto">${productOptions}</select>
+              <input type="number" id="cart-quantity" value="1" min="1" aria-label="Cantidad">
+              <button type="button" id="cart-add-btn" class="btn btn-secondary" aria-label="Agregar"><i class="fas fa-cart-plus"></i></button>
+            </div>
+            <div id="cart-lines" class="cart-lines"></div>
+          </fieldset>
+          <div class="form-group"><label for="amount">Monto</label><input type="number" id="amount" name="amount" step="0.01" value="${sale ? toMajor(sale.amount) : ''}" required ${sale?.items?.length ? 'readonly' : ''}></div>
+          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${sale?.description || ''}" required></div>
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${sale?.date || new Date().toISOString().split('T')[0]}" required></div>
+          ${this.renderCampaignSelect(campaigns, creditors, campaignId, 'Campaña (Opcional)')}
+          ${!sale || 'clientId' in sale ? this.renderInstallmentFields(sale && 'clientId' in sale ? sale.installmentPlan : undefined) : ''}
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('sale-form') as HTMLFormElement;
+    const amountInput = form.querySelector('#amount') as HTMLInputElement;
+    const descriptionInput = form.querySelector('#description') as HTMLInputElement;
+    const productSelect = form.querySelector('#cart-product') as HTMLSelectElement;
+    const quantityInput = form.querySelector('#cart-quantity') as HTMLInputElement;
+    const cartLines = form.querySelector('#cart-lines') as HTMLDivElement;
+    const cart: SaleItem[] = (sale?.items || []).map(item => ({ ...item }));
+    let descriptionEdited = isEditing;
+
+    // Installments only apply to credit sales, i.e. sales to a client
+    const installmentFields = form.querySelector('.installment-fields') as HTMLElement | null;
+    if (installmentFields) {
+        this.setupInstallmentFields(form);
+        const clientSelect = form.querySelector('#clientId') as HTMLSelectElement | null;
+        const toggleInstallments = () => installmentFields.classList.toggle('hidden', !!clientSelect && !clientSelect.value);
+        clientSelect?.addEventListener('change', toggleInstallments);
+        toggleInstallments();
+    }
+
+    const renderCart = () => {
+        const total = sumMoney(cart.map(saleItemTotal));
+        cartLines.innerHTML = cart.map((item, index) => {
+            const stock = available(item.productId);
+            return `
+            <div class="cart-line ${item.quantity > stock ? 'cart-line-error' : ''}" data-index="${index}">
+              <div class="cart-line-header">
+                <span>${item.name}</span>
+                <span>${formatMoney(saleItemTotal(item))}
+                  <button type="button" class="icon-btn icon-btn-delete" data-cart-remove="${index}" aria-label="Quitar"><i class="fas fa-xmark"></i></button></span>
+              </div>
+              <div class="cart-line-fields">
+                <label>Cant.<input type="number" data-field="quantity" value="${item.quantity}" min="1" max="${stock}"></label>
+                <label>Precio<input type="number" data-field="unitPrice" value="${toMajor(item.unitPrice)}" min="0" step="0.01"></label>
+                <label>Desc.<input type="number" data-field="discount" value="${toMajor(item.discount)}" min="0" step="0.01"></label>
+              </div>
+            </div>`;
+        }).join('') + (cart.length ? `<div class="cart-total"><span>Total</span><span>${formatMoney(total)}</span></div>` : '');
+
+        amountInput.readOnly = cart.length > 0;
+        if (cart.length > 0) amountInput.value = toMajor(total).toString();
+        else if (sale?.items?.length) amountInput.value = '';
+        if (!descriptionEdited) descriptionInput.value = cart.map(item => `${item.quantity}x ${item.name}`).join(', ');
+    };
+
+    descriptionInput.addEventListener('input', () => descriptionEdited = descriptionInput.value !== '');
+    form.querySelector('#cart-add-btn')!.addEventListener('click', () => {
+        const product = products.find(p => p.id === productSelect.value);
+        const quantity = parseInt(quantityInput.value) || 1;
+        if (!product) return;
+        const existing = cart.find(item => item.productId === product.id);
+        if (existing) existing.quantity += quantity;
+        else cart.push({ productId: product.id, name: product.name, quantity, unitPrice: product.price, discount: 0, unitCost: product.cost });
+        productSelect.value = '';
+        quantityInput.value = '1';
+        renderCart();
+    });
+    cartLines.addEventListener('change', e => {
+        const input = e.target as HTMLInputElement;
+        const line = input.closest('.cart-line') as HTMLElement | null;
+        if (!line || !input.dataset.field) return;
+        const item = cart[parseInt(line.dataset.index!)];
+        if (input.dataset.field === 'quantity') item.quantity = Math.max(1, Math.floor(parseFloat(input.value) || 0));
+        const amount = Math.max(0, parseMoney(input.value) || 0);
+        if (input.dataset.field === 'unitPrice') item.unitPrice = amount;
+        if (input.dataset.field === 'discount') item.discount = Math.min(amount, item.quantity * item.unitPrice);
+        renderCart();
+    });
+    cartLines.addEventListener('click', e => {
+        const removeBtn = (e.target as HTMLElement).closest('[data-cart-remove]') as HTMLElement | null;
+        if (!removeBtn) return;
+        cart.splice(parseInt(removeBtn.dataset.cartRemove!), 1);
+        renderCart();
+    });
+    if (cart.length) renderCart();
+    
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const clientId = fd.get('clientId') as string;
+      const amount = this.readMoney(fd, 'amount');
+      if (amount === null) return;
+      const description = fd.get('description') as string;
+      const date = fd.get('date') as string;
+
+      const items = cart.length ? cart : undefined;
+      const installmentPlan = this.readInstallmentPlan(fd);
+      const campaignId = fd.get('campaignId') as string || undefined;
+
+      try {
+        if (sale && 'clientId' in sale) {
+          await this.store.saveSaleWithItems<Transaction>('transactions', { ...sale, amount: Math.abs(amount), description, date, items, installmentPlan, campaignId });
+        } else if (sale) {
+          await this.store.saveSaleWithItems<Sale>('sales', { ...sale, amount, description, date, items, campaignId });
+        } else if (clientId) {
+          await this.store.saveSaleWithItems<Transaction>('transactions', { clientId, amount: Math.abs(amount), description, date, items, installmentPlan, campaignId });
+        } else {
+          await this.store.saveSaleWithItems<Sale>('sales', { amount, description, date, items, campaignId });
+        }
+      } catch (err) {
+        alert((err as Error).message);
+        return;
+      }
+      this.closeModal(); this.render();
+    });
+  }
+
+  // Name, icon and color inputs of a category, shared by the category form and the inline
+  // "Nueva categoría" fields of the expense form.
+  private renderCategoryFields(category?: ExpenseCategory): string {
+    const color = category?.color || CATEGORY_COLORS[0];
+    return `
+      <div class="form-group"><label for="categoryName">Nombre</label><input type="text" id="categoryName" name="categoryName" value="${category?.name || ''}" placeholder="Transporte, Comida..." required></div>
+      <div class="form-group"><label>Ícono</label>
+        <div class="icon-picker">${CATEGORY_ICONS.map(icon => `
+          <label><input type="radio" name="categoryIcon" value="${icon}" ${(category?.icon || DEFAULT_CATEGORY_ICON) === icon ? 'checked' : ''}><i class="fas ${icon}"></i></label>`).join('')}
+        </div>
+      </div>
+      <div class="form-group"><label for="categoryColor">Color</label><input type="color" id="categoryColor" name="categoryColor" value="${color}" list="category-colors">
+        <datalist id="category-colors">${CATEGORY_COLORS.map(c => `<option value="${c}"></option>`).join('')}</datalist>
+      </div>`;
+  }
+
+  // Reads the category fields. Returns null (after telling the user) if the name is taken by another category.
+  private readCategoryFields(fd: FormData, categories: ExpenseCategory[], id?: string): Omit<ExpenseCategory, 'id' | 'budget'> | null {
+    const name = (fd.get('categoryName') as string).trim();
+    if (categories.some(c => c.id !== id && normalizeText(c.name) === normalizeText(name))) {
+      alert(`Ya existe una categoría llamada "${name}".`);
+      return null;
+    }
+    return { name, icon: fd.get('categoryIcon') as string || DEFAULT_CATEGORY_ICON, color: fd.get('categoryColor') as string };
+  }
+
+  // Category select with a "Nueva categoría" option that reveals the fields to create one inline.
+  private renderCategoryPicker(categories: ExpenseCategory[], selectedId?: string): string {
+    const options = [...categories].sort((a, b) => a.name.localeCompare(b.name))
+      .map(c => `<option value="${c.id}" ${selectedId === c.id ? 'selected' : ''}>${c.name}${c.budget ? ` (presupuesto ${formatMoney(c.budget, 0)})` : ''}</option>`).join('');
+    return `
+      <div class="category-picker">
+        <div class="form-group"><label for="categoryId">Categoría</label>
+          <select id="categoryId" name="categoryId" required>
+            ${categories.length ? '' : '<option value="">Crea tu primera categoría</option>'}${options}
+            <option value="new" ${categories.length ? '' : 'selected'}>+ Nueva categoría...</option>
+          </select>
+        </div>
+        <fieldset class="new-category-fields"><legend>Nueva Categoría</legend>${this.renderCategoryFields()}</fieldset>
+      </div>`;
+  }
+
+  // Shows the new-category fields only while "Nueva categoría" is selected. Returns the function that
+  // syncs them, for forms that also disable the whole picker.
+  private setupCategoryPicker(form: HTMLFormElement): () => void {
+    const select = form.querySelector('[name="categoryId"]') as HTMLSelectElement;
+    const fields = form.querySelector('.new-category-fields') as HTMLFieldSetElement;
+    // A disabled fieldset skips validation and is left out of the form data
+    const sync = () => {
+        fields.disabled = select.disabled || select.value !== 'new';
+        fields.classList.toggle('hidden', fields.disabled);
+    };
+    select.addEventListener('change', sync);
+    sync();
+    return sync;
+  }
+
+  private async renderCategoryForm(category?: ExpenseCategory): Promise<void> {
+    const isEditing = !!category;
+    const categories = await this.store.getCategories();
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Categoría</h2><button class="close-btn">&times;</button></div>
+        <form id="category-form">
+          <input type="hidden" name="id" value="${category?.id || ''}">
+          ${this.renderCategoryFields(category)}
+          <div class="form-group"><label for="budget">Presupuesto Mensual (Opcional)</label><input type="number" id="budget" name="budget" step="0.01" min="0" value="${category?.budget ? toMajor(category.budget) : ''}"></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('category-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const fields = this.readCategoryFields(fd, categories, category?.id);
+      if (!fields) return;
+      let budget: Money | undefined;
+      if ((fd.get('budget') as string).trim()) {
+          const value = this.readMoney(fd, 'budget', 'El presupuesto');
+          if (value === null) return;
+          budget = value > 0 ? value : undefined;
+      }
+      await this.store.save<ExpenseCategory>('categories', { ...category, ...fields, budget });
+      this.closeModal(); this.render();
+    });
+  }
+
+  // Moves the expenses of the checked categories into one category and removes the others.
+  private renderMergeCategoriesForm(categories: ExpenseCategory[], counts: Map<string, number>): void {
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Combinar Categorías</h2><button class="close-btn">&times;</button></div>
+        <form id="merge-categories-form">
+          <fieldset><legend>Categorías a combinar</legend>
+            ${categories.map(c => `<div class="form-group"><label><input type="checkbox" name="sourceIds" value="${c.id}"> ${this.renderCategoryLabel(c)} <small>(${counts.get(c.id) || 0} gastos)</small></label></div>`).join('')}
+          </fieldset>
+          <div class="form-group"><label for="targetId">Combinar en</label>
+            <select id="targetId" name="targetId" required>${categories.map(c => `<option value="${c.id}">${c.name}</option>`).join('')}</select>
+          </div>
+          <p class="card-body">Los gastos de las categorías marcadas pasan a la categoría elegida, y las demás se envían a la papelera.</p>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Combinar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('merge-categories-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const targetId = fd.get('targetId') as string;
+      const sourceIds = (fd.getAll('sourceIds') as string[]).filter(id => id !== targetId);
+      if (sourceIds.length === 0) {
+          alert('Marca al menos una categoría distinta de la categoría destino.');
+          return;
+      }
+      const target = categories.find(c => c.id === targetId)!;
+      if (!confirm(`¿Combinar ${sourceIds.length} categoría(s) en "${target.name}"?`)) return;
+      const moved = await this.store.mergeCategories(targetId, sourceIds);
+      this.closeModal(); this.render();
+      this.showSnackbar(`${moved} gastos movidos a ${target.name}`);
+    });
+  }
+
+  private async renderExpenseForm(expense?: Expense): Promise<void> {
+    const isEditing = !!expense;
+    const [creditors, categories] = await Promise.all([this.store.getCreditors(), this.store.getCategories()]);
+    let creditorOptions = '<option value="">Gasto General</option>';
+    creditors.forEach(c => creditorOptions += `<option value="${c.id}" ${expense?.creditorId === c.id ? 'selected': ''}>Pago a: ${c.name}</option>`);
+
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Gasto</h2><button class="close-btn">&times;</button></div>
+        <form id="expense-form">
+          <input type="hidden" name="id" value="${expense?.id || ''}">
+          <div class="form-group"><label for="creditorId">Asociar a Acreedor (Opcional)</label><select id="creditorId" name="creditorId">${creditorOptions}</select></div>
+          <div class="form-group"><label for="amount">Monto</label><input type="number" id="amount" name="amount" step="0.01" value="${expense ? toMajor(expense.amount) : ''}" required></div>
+          ${this.renderCategoryPicker(categories, expense?.categoryId)}
+          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${expense?.description || ''}" required></div>
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${expense?.date || new Date().toISOString().split('T')[0]}" required></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('expense-form') as HTMLFormElement;
+    this.setupCategoryPicker(form);
 
-    if (transactions.length === 0) {
-        content += `<div class="empty-state"><p>No hay transacciones.</p></div>`;
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const creditorId = fd.get('creditorId') as string;
+      const amount = this.readMoney(fd, 'amount');
+      if (amount === null) return;
+      const date = fd.get('date') as string;
+
+      let category = categories.find(c => c.id === fd.get('categoryId'));
+      let newCategory: Omit<ExpenseCategory, 'id'> | null = null;
+      if (!category) {
+          newCategory = this.readCategoryFields(fd, categories);
+          if (!newCategory) return;
+      }
+
+      // Warn before the month's spending in a budgeted category goes past its budget
+      if (category?.budget) {
+          const spent = sumMoney((await this.store.getExpenses())
+              .filter(x => x.categoryId === category!.id && x.id !== expense?.id && x.date.substring(0, 7) === date.substring(0, 7))
+              .map(x => x.amount));
+          if (spent + amount > category.budget && !confirm(
+              `Con este gasto, "${category.name}" llega a ${formatMoney(spent + amount)} en ${formatMonth(date.substring(0, 7))}, ` +
+              `${formatMoney(spent + amount - category.budget)} por encima del presupuesto de ${formatMoney(category.budget)}.\n\n¿Guardar de todos modos?`)) {
+              return;
+          }
+      }
+      if (newCategory) category = await this.store.save<ExpenseCategory>('categories', newCategory);
+
+      await this.store.save<Expense>('expenses', {
+        id: fd.get('id') as string || undefined, amount: amount,
+        categoryId: category!.id, description: fd.get('description') as string,
+        date, creditorId: creditorId || undefined,
+      });
+
+      if (creditorId && !isEditing) {
+          await this.store.save<CreditorTransaction>('creditorTransactions', {
+              creditorId, amount: -Math.abs(amount), // Payment is negative
+              description: `Pago registrado desde gastos: ${fd.get('description') as string}`,
+              date,
+          });
+      }
+
+      this.closeModal(); this.render();
+    });
+  }
+
+  private async renderRecurringPage(): Promise<void> {
+    const [templates, categories, creditors] = await Promise.all([
+      this.store.getRecurringTemplates(), this.store.getCategories(), this.store.getCreditors(),
+    ]);
+    const today = new Date().toISOString().split('T')[0];
+    const due = templates.reduce((n, t) => n + dueOccurrences(t, today).length, 0);
+
+    let content = `
+      <div class="page-actions"><button id="review-recurring-btn" class="btn btn-secondary" ${due ? '' : 'disabled'}><i class="fas fa-list-check"></i> Revisar pendientes${due ? ` (${due})` : ''}</button></div>
+      <div class="item-list">`;
+    if (templates.length === 0) {
+      content += `<div class="empty-state"><i class="fas fa-repeat"></i><p>No hay gastos recurrentes. Agrega el arriendo, el plan del celular o la cuota del catálogo para no escribirlos cada mes.</p></div>`;
     } else {
-        transactions.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).forEach(t => {
-            const amountClass = t.amount >= 0 ? 'positive' : 'negative';
-            const formattedAmount = t.amount.toLocaleString('es-CO', { style: 'currency', currency: 'COP' });
-            content += `
-            <div class="card">
-                <div class="card-header">
-                    <span class="card-title">${new Date(t.date).toLocaleDateString('es-CO')}</span>
-                    <div>
-                        <span class="card-balance ${amountClass}">${formattedAmount}</span>
-                        <button class="icon-btn" data-action="edit" data-type="creditorTransaction" data-id="${t.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
-                        <button class="icon-btn icon-btn-delete" data-action="delete" data-type="creditorTransaction" data-id="${t.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
-                    </div>
-                </div>
-                <div class="card-body">${t.description}</div>
-            </div>`;
-        });
+      templates.sort((a, b) => a.description.localeCompare(b.description)).forEach(template => {
+        const next = nextOccurrence(template);
+        const creditor = creditors.find(c => c.id === template.creditorId);
+        const detail = template.target === 'expenses'
+          ? this.renderCategoryLabel(categories.find(c => c.id === template.categoryId)) + (creditor ? ` · Pago a ${creditor.name}` : '')
+          : `${RECURRING_TARGET_LABELS.creditorTransactions}: ${creditor?.name || ''}`;
+        content += `
+          <div class="card" style="border-left-color: var(--debt-color);">
+            <div class="card-header">
+              <span class="card-title">${template.description}</span>
+              <div>
+                <span class="card-balance negative">${formatMoney(template.amount)}</span>
+                <button class="icon-btn" data-action="edit" data-type="recurringTemplates" data-id="${template.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>
+                <button class="icon-btn icon-btn-delete" data-action="delete" data-type="recurringTemplates" data-id="${template.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>
+              </div>
+            </div>
+            <div class="card-body">${detail}<br>${INSTALLMENT_FREQUENCY_LABELS[template.frequency]} · ${next ? `Próximo: ${formatDate(next)}` : 'Finalizado'}</div>
+          </div>`;
+      });
     }
+    content += '</div>';
 
-    content += '</div>'
-    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Compra/Pago"><i class="fas fa-plus"></i></button>';
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Gastos Recurrentes</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'expenses';
+    }));
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Gasto Recurrente"><i class="fas fa-plus"></i></button>';
+    document.getElementById('review-recurring-btn')?.addEventListener('click', () => this.reviewRecurring());
   }
 
-  private renderHelpPage(): void {
-    this.headerTitle.textContent = 'Ayuda e Información';
-    const content = `
-      <div class="item-list">
-        <div class="card">
-          <div class="card-header"><span class="card-title">Cómo Instalar esta Aplicación</span></div>
-          <div class="card-body" style="line-height: 1.6;">
-            <p>Puedes instalar esta aplicación en tu dispositivo para un acceso más rápido y para usarla sin conexión a internet.</p>
+  private async renderRecurringForm(template?: RecurringTemplate): Promise<void> {
+    const isEditing = !!template;
+    const [categories, creditors] = await Promise.all([this.store.getCategories(), this.store.getCreditors()]);
+    const target = template?.target || 'expenses';
+    const creditorOptions = creditors.map(c => `<option value="${c.id}" ${template?.creditorId === c.id ? 'selected' : ''}>${c.name}</option>`).join('');
+    const frequencyOptions = (Object.keys(INSTALLMENT_FREQUENCY_LABELS) as InstallmentFrequency[])
+      .map(f => `<option value="${f}" ${(template?.frequency || 'monthly') === f ? 'selected' : ''}>${INSTALLMENT_FREQUENCY_LABELS[f]}</option>`).join('');
+
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Gasto Recurrente</h2><button class="close-btn">&times;</button></div>
+        <form id="recurring-form">
+          <input type="hidden" name="id" value="${template?.id || ''}">
+          <div class="form-group"><label for="target">Tipo</label>
+            <select id="target" name="target">
+              <option value="expenses" ${target === 'expenses' ? 'selected' : ''}>Gasto</option>
+              <option value="creditorTransactions" ${target === 'creditorTransactions' ? 'selected' : ''}>Cargo de acreedor (compra a crédito)</option>
+            </select>
           </div>
-        </div>
-        <div class="card">
-          <div class="card-header" style="margin-bottom: 16px;"><span class="card-title"><i class="fab fa-android" style="color: #3DDC84; margin-right: 8px;"></i> Android (Chrome)</span></div>
-          <div class="card-body">
-            <ol style="padding-left: 20px;">
-              <li>Toca el menú de los tres puntos (<i class="fas fa-ellipsis-v" style="width: 1em; text-align: center;"></i>) en la esquina superior derecha.</li>
-              <li>Selecciona <strong>"Instalar aplicación"</strong> o "Agregar a la pantalla principal".</li>
-              <li>Sigue las instrucciones en pantalla.</li>
-            </ol>
+          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${template?.description || ''}" placeholder="Arriendo, plan del celular..." required></div>
+          <div class="form-group"><label for="amount">Monto</label><input type="number" id="amount" name="amount" step="0.01" value="${template ? toMajor(template.amount) : ''}" required></div>
+          ${this.renderCategoryPicker(categories, template?.categoryId)}
+          <div class="form-group"><label for="creditorId">Acreedor</label>
+            <select id="creditorId" name="creditorId"><option value="">Ninguno</option>${creditorOptions}</select>
           </div>
-        </div>
+          <div class="form-group"><label for="frequency">Frecuencia</label><select id="frequency" name="frequency">${frequencyOptions}</select></div>
+          <div class="form-group"><label for="startDate">Desde</label><input type="date" id="startDate" name="startDate" value="${template?.startDate || new Date().toISOString().split('T')[0]}" required></div>
+          <div class="form-group"><label for="endDate">Hasta (Opcional)</label><input type="date" id="endDate" name="endDate" value="${template?.endDate || ''}"></div>
+          <p class="card-body">Cada vez que venza se te pedirá confirmarlo antes de registrarlo. Si la fecha de inicio ya pasó, también se incluyen los periodos anteriores.</p>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('recurring-form') as HTMLFormElement;
+    const targetSelect = form.querySelector('[name="target"]') as HTMLSelectElement;
+    const categorySelect = form.querySelector('[name="categoryId"]') as HTMLSelectElement;
+    const creditorSelect = form.querySelector('[name="creditorId"]') as HTMLSelectElement;
+    const syncCategoryFields = this.setupCategoryPicker(form);
+    // Creditor charges need a creditor and have no category
+    const syncTarget = () => {
+        const isCharge = targetSelect.value === 'creditorTransactions';
+        categorySelect.disabled = isCharge;
+        form.querySelector('.category-picker')!.classList.toggle('hidden', isCharge);
+        creditorSelect.required = isCharge;
+        creditorSelect.options[0].textContent = isCharge ? 'Elige un acreedor' : 'Ninguno';
+        syncCategoryFields();
+    };
+    targetSelect.addEventListener('change', syncTarget);
+    syncTarget();
 
-        <div class="card">
-          <div class="card-header" style="margin-bottom: 16px;"><span class="card-title"><i class="fab fa-apple" style="color: #A2AAAD; margin-right: 8px;"></i> iPhone / iPad (Safari)</span></div>
-          <div class="card-body">
-            <ol style="padding-left: 20px;">
-              <li>Toca el ícono de Compartir (<i class="fas fa-arrow-up-from-bracket" style="width: 1em; text-align: center;"></i>) en la barra de navegación.</li>
-              <li>Desliza hacia arriba y selecciona <strong>"Agregar a la pantalla de inicio"</strong>.</li>
-              <li>Confirma para añadir el ícono a tu pantalla.</li>
-            </ol>
-          </div>
-        </div>
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const amount = this.readMoney(fd, 'amount');
+      if (amount === null) return;
+      const startDate = fd.get('startDate') as string;
+      const endDate = fd.get('endDate') as string || undefined;
+      if (endDate && endDate < startDate) {
+          alert('La fecha final no puede ser anterior a la fecha de inicio.');
+          return;
+      }
+      const target = fd.get('target') as RecurringTemplate['target'];
+      let categoryId: string | undefined;
+      if (target === 'expenses') {
+          categoryId = categories.find(c => c.id === fd.get('categoryId'))?.id;
+          if (!categoryId) {
+              const newCategory = this.readCategoryFields(fd, categories);
+              if (!newCategory) return;
+              categoryId = (await this.store.save<ExpenseCategory>('categories', newCategory)).id;
+          }
+      }
+      await this.store.save<RecurringTemplate>('recurringTemplates', {
+          ...template, target, description: fd.get('description') as string, amount: Math.abs(amount),
+          categoryId, creditorId: fd.get('creditorId') as string || undefined,
+          frequency: fd.get('frequency') as InstallmentFrequency, startDate, endDate,
+      });
+      this.closeModal(); this.render();
+    });
+  }
 
-        <div class="card">
-          <div class="card-header" style="margin-bottom: 16px;"><span class="card-title"><i class="fas fa-desktop" style="margin-right: 8px;"></i> Computadora (Chrome/Edge)</span></div>
-          <div class="card-body">
-            <ol style="padding-left: 20px;">
-              <li>Busca el ícono de instalación (<i class="fas fa-download" style="width: 1em; text-align: center;"></i>) en la parte derecha de la barra de direcciones.</li>
-              <li>Haz clic en él y confirma la instalación.</li>
-              <li>La aplicación se abrirá en su propia ventana.</li>
-            </ol>
+  // Lists every due occurrence of the recurring templates so each one can be confirmed (optionally
+  // with a different amount, date or description), skipped or left for later. Does nothing if none are due.
+  private async reviewRecurring(): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    const [templates, categories, creditors] = await Promise.all([
+      this.store.getRecurringTemplates(), this.store.getCategories(), this.store.getCreditors(),
+    ]);
+    const occurrences = templates.flatMap(template => dueOccurrences(template, today).map(date => ({ template, date })))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (occurrences.length === 0) return;
+
+    const rows = occurrences.map(({ template, date }, i) => {
+      const creditor = creditors.find(c => c.id === template.creditorId);
+      const detail = template.target === 'expenses'
+        ? this.renderCategoryLabel(categories.find(c => c.id === template.categoryId)) + (creditor ? ` · Pago a ${creditor.name}` : '')
+        : `${RECURRING_TARGET_LABELS.creditorTransactions}: ${creditor?.name || ''}`;
+      return `
+        <fieldset class="recurring-occurrence">
+          <legend>${template.description} · ${formatDate(date)}</legend>
+          <p class="card-body">${detail}</p>
+          <div class="form-group"><label>Monto</label><input type="number" name="amount-${i}" step="0.01" value="${toMajor(template.amount)}" required></div>
+          <div class="form-group"><label>Fecha</label><input type="date" name="date-${i}" value="${date}" required></div>
+          <div class="form-group"><label>Descripción</label><input type="text" name="description-${i}" value="${template.description}" required></div>
+          <div class="form-group"><label>Acción</label>
+            <select name="action-${i}">
+              <option value="confirm">Registrar</option>
+              <option value="skip">Omitir este periodo</option>
+              <option value="later">Decidir después</option>
+            </select>
           </div>
-        </div>
+        </fieldset>`;
+    }).join('');
 
-        <div class="card">
-          <div class="card-header"><span class="card-title">Acerca de la App</span></div>
-          <div class="card-body" style="color: var(--on-background-color);">
-            <p><strong>Gestión de Ventas y Finanzas v1.0.1</strong></p>
-            <p>Esta es una aplicación local. Todos tus datos se guardan de forma segura únicamente en tu dispositivo y no se envían a ningún servidor.</p>
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Gastos Recurrentes Pendientes</h2><button class="close-btn">&times;</button></div>
+        <form id="recurring-review-form">
+          <p class="card-body">${occurrences.length} ${occurrences.length === 1 ? 'periodo vencido' : 'periodos vencidos'}. Revisa los montos antes de registrarlos. Si dejas uno para después, los siguientes del mismo gasto también quedan pendientes.</p>
+          ${rows}
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Más tarde</button><button type="submit" class="btn btn-primary">Aplicar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('recurring-review-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const amounts: Money[] = [];
+      for (let i = 0; i < occurrences.length; i++) {
+          const amount = fd.get(`action-${i}`) === 'confirm' ? this.readMoney(fd, `amount-${i}`, `El monto de "${occurrences[i].template.description}"`) : 0;
+          if (amount === null) return;
+          amounts.push(amount);
+      }
+
+      // Occurrences are applied oldest first, because each one moves its template's lastDate forward
+      const postponed = new Set<string>();
+      let recorded = 0;
+      for (let i = 0; i < occurrences.length; i++) {
+          const { template, date } = occurrences[i];
+          const action = fd.get(`action-${i}`);
+          if (action === 'later' || postponed.has(template.id)) {
+              postponed.add(template.id);
+              continue;
+          }
+          const records = action === 'confirm'
+            ? occurrenceRecords(template, { date: fd.get(`date-${i}`) as string, amount: amounts[i], description: fd.get(`description-${i}`) as string })
+            : [];
+          await this.store.saveRecurringOccurrence(template.id, date, records);
+          if (records.length) recorded++;
+      }
+      this.closeModal(); this.render();
+      if (recorded) this.showSnackbar(`${recorded} ${recorded === 1 ? 'gasto recurrente registrado' : 'gastos recurrentes registrados'}`);
+    });
+  }
+
+  private async renderProductForm(product?: Product): Promise<void> {
+      const isEditing = !!product;
+      const initialMovement = product ? (await this.store.getStockMovementsForProduct(product.id)).find(m => m.kind === 'initial') : undefined;
+      const showInitialCost = !isEditing || !!initialMovement;
+      const creditors = await this.store.getCreditors();
+      const creditorOptions = creditors.map(c => `<option value="${c.id}" ${product?.supplierId === c.id ? 'selected' : ''}>${c.name}</option>`).join('');
+      const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Producto</h2><button class="close-btn">&times;</button></div>
+        <form id="product-form">
+          <input type="hidden" name="id" value="${product?.id || ''}">
+          <div class="form-group"><label for="name">Nombre</label><input type="text" name="name" value="${product?.name || ''}" required></div>
+          <div class="form-group"><label for="sku">Código (Opcional)</label><input type="text" name="sku" value="${product?.sku || ''}" placeholder="Código del catálogo"></div>
+          <div class="form-group"><label for="description">Descripción</label><input type="text" name="description" value="${product?.description || ''}"></div>
+          <div class="form-group"><label for="price">Precio de Venta</label><input type="number" name="price" step="0.01" value="${product ? toMajor(product.price) : ''}" required></div>
+          ${isEditing
+            ? `<div class="form-group"><label for="quantity">Cantidad en Stock</label><input type="number" name="quantity" value="${product.quantity}" readonly></div>
+               <p class="card-body">El stock se calcula a partir de los movimientos. Para corregirlo registra un ajuste en Movimientos.</p>`
+            : `<div class="form-group"><label for="quantity">Cantidad Inicial</label><input type="number" name="quantity" value="0" min="0" required></div>`}
+          ${showInitialCost ? `<div class="form-group"><label for="initialCost">Costo Unitario del Stock Inicial</label><input type="number" name="initialCost" step="0.01" min="0" value="${initialMovement?.unitCost !== undefined ? toMajor(initialMovement.unitCost) : ''}"></div>` : ''}
+          ${product?.cost !== undefined ? `<div class="form-group"><label for="cost">Costo Promedio</label><input type="number" name="cost" value="${toMajor(product.cost)}" readonly></div>` : ''}
+          <div class="form-group"><label for="minStock">Stock Mínimo (Opcional)</label><input type="number" name="minStock" min="0" step="1" value="${product?.minStock ?? ''}"></div>
+          <div class="form-group"><label for="supplierId">Proveedor Preferido</label><select name="supplierId"><option value="">Ninguno</option>${creditorOptions}</select></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+      this.showModal(modalHTML);
+      const form = document.getElementById('product-form') as HTMLFormElement;
+      form.addEventListener('submit', async e => {
+          e.preventDefault();
+          const fd = new FormData(form);
+          const price = this.readMoney(fd, 'price', 'El precio');
+          const unitCost = fd.get('initialCost') ? this.readMoney(fd, 'initialCost', 'El costo unitario') : undefined;
+          if (price === null || unitCost === null) return;
+          await this.store.saveProduct({
+              ...product,
+              id: fd.get('id') as string || undefined,
+              name: fd.get('name') as string, description: fd.get('description') as string,
+              price,
+              sku: (fd.get('sku') as string).trim() || undefined,
+              minStock: fd.get('minStock') ? Math.max(0, parseInt(fd.get('minStock') as string) || 0) : undefined,
+              supplierId: fd.get('supplierId') as string || undefined,
+          }, {
+              quantity: isEditing ? 0 : parseInt(fd.get('quantity') as string) || 0,
+              unitCost,
+          });
+          this.closeModal(); this.render();
+      });
+  }
+  
+  private renderCreditorForm(creditor?: Creditor): void {
+    const isEditing = !!creditor;
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Acreedor</h2><button class="close-btn">&times;</button></div>
+        <form id="creditor-form">
+          <input type="hidden" name="id" value="${creditor?.id || ''}">
+          <div class="form-group"><label for="name">Nombre</label><input type="text" name="name" value="${creditor?.name || ''}" required></div>
+          <div class="form-group"><label for="phone">Teléfono</label><input type="tel" name="phone" value="${creditor?.phone || ''}"></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('creditor-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      await this.store.save<Creditor>('creditors', {
+        id: fd.get('id') as string || undefined,
+        name: fd.get('name') as string, phone: fd.get('phone') as string,
+      });
+      this.closeModal(); this.render();
+    });
+  }
+  
+  private renderOrderCard(order: Order, clientName?: string): string {
+    const actions: Record<OrderStatus, string> = {
+      pending: `<button class="btn btn-secondary order-status-btn" data-id="${order.id}" data-status="ordered"><i class="fas fa-truck"></i> Marcar pedido</button>`,
+      ordered: `<button class="btn btn-secondary open-purchase-list-btn"><i class="fas fa-box"></i> Recibir</button>`,
+      received: `<button class="btn btn-primary deliver-order-btn" data-id="${order.id}"><i class="fas fa-hand-holding"></i> Entregar y cobrar</button>`,
+      delivered: '',
+    };
+    return `
+      <div class="card">
+        <div class="card-header">
+          <span class="card-title">${clientName ?? formatDate(order.date)}</span>
+          <div>
+            <span class="card-balance">${formatMoney(orderTotal(order))}</span>
+            ${order.status === 'pending' ? `<button class="icon-btn" data-action="edit" data-type="orders" data-id="${order.id}" aria-label="Editar"><i class="fas fa-edit"></i></button>` : ''}
+            ${order.status !== 'delivered' ? `<button class="icon-btn icon-btn-delete" data-action="delete" data-type="orders" data-id="${order.id}" aria-label="Eliminar"><i class="fas fa-trash-alt"></i></button>` : ''}
           </div>
         </div>
-      </div>
-    `;
-    // No FAB on this page
-    this.appContent.innerHTML = content;
+        <div class="card-body">
+          <span class="badge ${order.status === 'received' ? 'badge-success' : ''}">${ORDER_STATUS_LABELS[order.status]}</span>
+          ${clientName !== undefined ? formatDate(order.date) + ' · ' : ''}${orderSummary(order.lines)}${order.note ? `<br><small>${order.note}</small>` : ''}
+        </div>
+        ${actions[order.status] ? `<div class="client-actions">${actions[order.status]}</div>` : ''}
+      </div>`;
   }
-  
-  // --- FORM RENDERERS ---
 
-  private renderClientForm(client?: Client): void {
-    const isEditing = !!client;
+  // Wires the status buttons of the order cards on the current page.
+  private setupOrderActions(): void {
+    this.appContent.querySelectorAll<HTMLElement>('.order-status-btn').forEach(btn => btn.addEventListener('click', async () => {
+        const order = await this.store.getOrder(btn.dataset.id!);
+        if (!order) return;
+        if (!order.creditorId) {
+            alert('Elige el proveedor del pedido antes de marcarlo como pedido.');
+            this.renderOrderForm(order);
+            return;
+        }
+        await this.store.save<Order>('orders', { ...order, status: btn.dataset.status as OrderStatus });
+        this.render();
+    }));
+    this.appContent.querySelectorAll<HTMLElement>('.open-purchase-list-btn').forEach(btn => btn.addEventListener('click', () => this.renderPurchaseList()));
+    this.appContent.querySelectorAll<HTMLElement>('.deliver-order-btn').forEach(btn => btn.addEventListener('click', async () => {
+        const order = await this.store.getOrder(btn.dataset.id!);
+        if (order) this.renderDeliverOrderForm(order);
+    }));
+  }
+
+  private async renderOrdersPage(): Promise<void> {
+    const [orders, clients] = await Promise.all([this.store.getOrders(), this.store.getClients()]);
+    const clientNames = new Map(clients.map(c => [c.id, c.name]));
+    const filtered = orders
+      .filter(o => clientNames.has(o.clientId))
+      .filter(o => this.currentOrderStatus === 'open' ? o.status !== 'delivered' : o.status === this.currentOrderStatus)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    const statusOptions = [['open', 'Abiertos'], ...Object.entries(ORDER_STATUS_LABELS)]
+      .map(([value, label]) => `<option value="${value}" ${this.currentOrderStatus === value ? 'selected' : ''}>${label}</option>`).join('');
+
+    let content = `
+      <select id="order-status-filter" class="month-select">${statusOptions}</select>
+      <div class="page-actions"><button class="btn btn-secondary open-purchase-list-btn"><i class="fas fa-clipboard-list"></i> Lista de compra</button></div>
+      <div class="item-list">`;
+    if (filtered.length === 0) {
+      content += `<div class="empty-state"><i class="fas fa-clipboard-list"></i><p>No hay pedidos${this.currentOrderStatus === 'open' ? ' abiertos' : ''}.</p></div>`;
+    } else {
+      filtered.forEach(order => content += this.renderOrderCard(order, clientNames.get(order.clientId)));
+    }
+    content += '</div>';
+
+    this.headerTitle.innerHTML = `<button id="back-btn" class="back-button">&larr;</button> <span>Pedidos</span>`;
+    document.getElementById('back-btn')?.addEventListener('click', () => this.navigateBack(() => {
+        this.currentPage = 'clients';
+    }));
+    this.appContent.innerHTML = content + '<button class="fab" aria-label="Agregar Pedido"><i class="fas fa-plus"></i></button>';
+    this.setupOrderActions();
+    document.getElementById('order-status-filter')?.addEventListener('change', e => {
+        this.currentOrderStatus = (e.target as HTMLSelectElement).value as OrderStatus | 'open';
+        this.render();
+    });
+  }
+
+  private async renderOrderForm(order?: Order): Promise<void> {
+    const isEditing = !!order;
+    // Once ordered from the supplier, the purchase and later the client charge were made from these lines
+    const linesLocked = !!order && order.status !== 'pending';
+    const [clients, products, creditors, campaigns] = await Promise.all([
+      this.store.getClients(), this.store.getProducts(), this.store.getCreditors(), this.store.getCampaigns(),
+    ]);
+    const clientId = order?.clientId || this.currentClientId || '';
+    const campaignId = isEditing ? order.campaignId : activeCampaign(campaigns, new Date().toISOString().split('T')[0])?.id;
+    const clientOptions = clients.map(c => `<option value="${c.id}" ${clientId === c.id ? 'selected' : ''}>${c.name}</option>`).join('');
+    const productOptions = products.map(p => `<option value="${p.id}">${p.name} (Stock: ${p.quantity})</option>`).join('');
+    const creditorOptions = creditors.map(c => `<option value="${c.id}" ${order?.creditorId === c.id ? 'selected' : ''}>${c.name}</option>`).join('');
+
     const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Cliente</h2><button class="close-btn">&times;</button></div>
-        <form id="client-form">
-          <input type="hidden" name="id" value="${client?.id || ''}">
-          <div class="form-group"><label for="name">Nombre</label><input type="text" id="name" name="name" value="${client?.name || ''}" required></div>
-          <div class="form-group"><label for="phone">Teléfono</label><input type="tel" id="phone" name="phone" value="${client?.phone || ''}"></div>
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Pedido</h2><button class="close-btn">&times;</button></div>
+        <form id="order-form">
+          <div class="form-group"><label for="clientId">Cliente</label><select id="clientId" name="clientId" required><option value="">Elegir cliente...</option>${clientOptions}</select></div>
+          <fieldset><legend>Productos</legend>
+            ${linesLocked ? `<p class="card-body">Este pedido está en estado "${ORDER_STATUS_LABELS[order!.status]}": los productos ya no se pueden cambiar.</p>` : `
+            <div class="cart-add">
+              <select id="cart-product" aria-label="Producto"><option value="">Elegir producto...</option>${productOptions}</select>
+              <input type="number" id="cart-quantity" value="1" min="1" aria-label="Cantidad">
+              <button type="button" id="cart-add-btn" class="btn btn-secondary" aria-label="Agregar"><i class="fas fa-cart-plus"></i></button>
+            </div>`}
+            <div id="cart-lines" class="cart-lines"></div>
+          </fieldset>
+          <div class="form-group"><label for="creditorId">Proveedor</label><select id="creditorId" name="creditorId"><option value="">Sin definir</option>${creditorOptions}</select></div>
+          ${this.renderCampaignSelect(campaigns, creditors, campaignId, 'Campaña (Opcional)')}
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${order?.date || new Date().toISOString().split('T')[0]}" required></div>
+          <div class="form-group"><label for="note">Nota</label><input type="text" id="note" name="note" value="${order?.note || ''}" placeholder="Talla, color, tono..."></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('order-form') as HTMLFormElement;
+    const productSelect = form.querySelector('#cart-product') as HTMLSelectElement;
+    const quantityInput = form.querySelector('#cart-quantity') as HTMLInputElement;
+    const linesContainer = form.querySelector('#cart-lines') as HTMLDivElement;
+    const creditorSelect = form.querySelector('#creditorId') as HTMLSelectElement;
+    const campaignSelect = form.querySelector('#campaignId') as HTMLSelectElement | null;
+    const lines: OrderLine[] = (order?.lines || []).map(line => ({ ...line }));
+
+    const renderLines = () => {
+        linesContainer.innerHTML = lines.map((line, index) => linesLocked ? `
+          <div class="cart-line">
+            <div class="cart-line-header"><span>${line.quantity}× ${line.name}</span><span>${formatMoney(line.quantity * line.unitPrice)}</span></div>
+          </div>` : `
+          <div class="cart-line" data-index="${index}">
+            <div class="cart-line-header">
+              <span>${line.name}</span>
+              <span>${formatMoney(line.quantity * line.unitPrice)}
+                <button type="button" class="icon-btn icon-btn-delete" data-cart-remove="${index}" aria-label="Quitar"><i class="fas fa-xmark"></i></button></span>
+            </div>
+            <div class="cart-line-fields">
+              <label>Cant.<input type="number" data-field="quantity" value="${line.quantity}" min="1"></label>
+              <label>Precio<input type="number" data-field="unitPrice" value="${toMajor(line.unitPrice)}" min="0" step="0.01"></label>
+            </div>
+          </div>`).join('') + (lines.length ? `<div class="cart-total"><span>Total</span><span>${formatMoney(sumMoney(lines.map(l => l.quantity * l.unitPrice)))}</span></div>` : '');
+    };
+    form.querySelector('#cart-add-btn')?.addEventListener('click', () => {
+        const product = products.find(p => p.id === productSelect.value);
+        if (!product) return;
+        const quantity = parseInt(quantityInput.value) || 1;
+        const existing = lines.find(line => line.productId === product.id);
+        if (existing) existing.quantity += quantity;
+        else lines.push({ productId: product.id, name: product.name, quantity, unitPrice: product.price });
+        productSelect.value = '';
+        quantityInput.value = '1';
+        renderLines();
+    });
+    linesContainer.addEventListener('change', e => {
+        const input = e.target as HTMLInputElement;
+        const row = input.closest('.cart-line') as HTMLElement | null;
+        if (!row || !input.dataset.field) return;
+        const line = lines[parseInt(row.dataset.index!)];
+        if (input.dataset.field === 'quantity') line.quantity = Math.max(1, Math.floor(parseFloat(input.value) || 0));
+        if (input.dataset.field === 'unitPrice') line.unitPrice = Math.max(0, parseMoney(input.value) || 0);
+        renderLines();
+    });
+    linesContainer.addEventListener('click', e => {
+        const removeBtn = (e.target as HTMLElement).closest('[data-cart-remove]') as HTMLElement | null;
+        if (!removeBtn) return;
+        lines.splice(parseInt(removeBtn.dataset.cartRemove!), 1);
+        renderLines();
+    });
+    // The campaign's supplier is the usual supplier of the order
+    campaignSelect?.addEventListener('change', () => {
+        const campaign = campaigns.find(c => c.id === campaignSelect.value);
+        if (campaign && !creditorSelect.value) creditorSelect.value = campaign.creditorId;
+    });
+    renderLines();
+
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      if (lines.length === 0) {
+          alert('Agrega al menos un producto al pedido.');
+          return;
+      }
+      const fd = new FormData(form);
+      await this.store.save<Order>('orders', {
+          ...order, status: order?.status || 'pending', lines: linesLocked ? order!.lines : lines,
+          clientId: fd.get('clientId') as string, date: fd.get('date') as string,
+          creditorId: fd.get('creditorId') as string || undefined,
+          campaignId: fd.get('campaignId') as string || undefined,
+          note: (fd.get('note') as string).trim() || undefined,
+      });
+      this.closeModal(); this.render();
+    });
+  }
+
+  // Consolidated list of what to order from, and what to receive from, each supplier.
+  private async renderPurchaseList(): Promise<void> {
+    const [orders, creditors, clients] = await Promise.all([this.store.getOrders(), this.store.getCreditors(), this.store.getClients()]);
+    const active = orders.filter(o => clients.some(c => c.id === o.clientId));
+    const creditorName = (id: string) => creditors.find(c => c.id === id)?.name || 'Sin proveedor asignado';
+    const renderGroups = (groups: PurchaseListGroup[], action: 'order' | 'receive') => groups.map(group => `
+      <div class="card">
+        <div class="card-header"><span class="card-title">${creditorName(group.creditorId)}</span><small>${group.orders.length} pedido(s)</small></div>
+        <ul class="sale-items">${group.lines.map(line => `<li>${line.quantity}x ${line.name}</li>`).join('')}</ul>
+        ${!group.creditorId ? '<p class="card-body">Edita estos pedidos para elegir el proveedor.</p>'
+          : action === 'order' ? `<div class="client-actions"><button class="btn btn-secondary mark-ordered-btn" data-creditor="${group.creditorId}"><i class="fas fa-truck"></i> Marcar como pedido</button></div>`
+          : `<div class="client-actions"><button class="btn btn-primary receive-btn" data-creditor="${group.creditorId}"><i class="fas fa-box"></i> Recibir</button></div>`}
+      </div>`).join('');
+    const toOrder = buildPurchaseList(active.filter(o => o.status === 'pending'));
+    const toReceive = buildPurchaseList(active.filter(o => o.status === 'ordered'));
+
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Lista de Compra</h2><button class="close-btn">&times;</button></div>
+        <h4>Por pedir</h4>
+        ${toOrder.length ? renderGroups(toOrder, 'order') : '<p class="card-body">No hay pedidos pendientes.</p>'}
+        <h4>Por recibir</h4>
+        ${toReceive.length ? renderGroups(toReceive, 'receive') : '<p class="card-body">No hay pedidos esperando al proveedor.</p>'}
+        <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cerrar</button></div>
+      </div>`;
+    this.showModal(modalHTML);
+    this.modalContainer.querySelectorAll<HTMLElement>('.mark-ordered-btn').forEach(btn => btn.addEventListener('click', async () => {
+        const group = toOrder.find(g => g.creditorId === btn.dataset.creditor)!;
+        for (const order of group.orders) await this.store.save<Order>('orders', { ...order, status: 'ordered' });
+        this.render();
+        this.renderPurchaseList();
+    }));
+    this.modalContainer.querySelectorAll<HTMLElement>('.receive-btn').forEach(btn => btn.addEventListener('click', () => {
+        this.renderReceiveOrdersForm(toReceive.find(g => g.creditorId === btn.dataset.creditor)!);
+    }));
+  }
+
+  // Receives the supplier's ordered products as one creditor purchase, adding them to the stock, and
+  // marks the checked orders as received.
+  private async renderReceiveOrdersForm(group: PurchaseListGroup): Promise<void> {
+    const [products, clients, creditor] = await Promise.all([this.store.getProducts(), this.store.getClients(), this.store.getCreditor(group.creditorId)]);
+    if (!creditor) return;
+    const clientName = (id: string) => clients.find(c => c.id === id)?.name || '';
+    // Suggested amount: what the products cost last time, when every one of them has a cost
+    const costs = group.lines.map(line => products.find(p => p.id === line.productId)?.cost);
+    const suggested = costs.every(cost => cost !== undefined) ? sumMoney(group.lines.map((line, i) => line.quantity * costs[i]!)) : undefined;
+    const campaignIds = [...new Set(group.orders.map(o => o.campaignId))];
+
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Recibir de ${creditor.name}</h2><button class="close-btn">&times;</button></div>
+        <form id="receive-orders-form">
+          <fieldset><legend>Pedidos recibidos</legend>
+            ${group.orders.map(o => `<div class="form-group"><label><input type="checkbox" name="orderIds" value="${o.id}" checked> ${clientName(o.clientId)}: ${orderSummary(o.lines)}</label></div>`).join('')}
+          </fieldset>
+          <div class="form-group"><label for="amount">Monto Facturado por el Proveedor</label><input type="number" id="amount" name="amount" step="0.01" min="0" value="${suggested !== undefined ? toMajor(suggested) : ''}" required></div>
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${new Date().toISOString().split('T')[0]}" required></div>
+          <div class="form-group"><label for="dueDate">Fecha de Vencimiento (Opcional)</label><input type="date" id="dueDate" name="dueDate"></div>
+          <p class="card-body">Se registra una compra a ${creditor.name} y los productos entran al inventario.</p>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Recibir</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('receive-orders-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const orderIds = fd.getAll('orderIds') as string[];
+      const received = group.orders.filter(o => orderIds.includes(o.id));
+      if (received.length === 0) {
+          alert('Marca al menos un pedido.');
+          return;
+      }
+      const amount = this.readMoney(fd, 'amount');
+      if (amount === null) return;
+      const lines = buildPurchaseList(received)[0].lines;
+
+      // The invoice total is spread over the products in proportion to their price in the orders
+      const weights = lines.map(line => sumMoney(received.flatMap(o => o.lines).filter(l => l.productId === line.productId).map(l => l.quantity * l.unitPrice)));
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+      const purchaseId = generateId();
+      try {
+        await this.store.saveWithStockMovements<CreditorTransaction>('creditorTransactions', {
+            id: purchaseId, creditorId: creditor.id, amount: Math.abs(amount), date: fd.get('date') as string,
+            description: `Pedido recibido: ${orderSummary(lines)}`,
+            dueDate: fd.get('dueDate') as string || undefined,
+            campaignId: campaignIds.length === 1 ? campaignIds[0] : undefined,
+        }, lines.map((line, i) => ({
+            productId: line.productId, quantity: line.quantity, kind: 'purchase' as const,
+            unitCost: Math.round((totalWeight ? Math.abs(amount) * weights[i] / totalWeight : Math.abs(amount) / lines.length) / line.quantity),
+        })), received.map(o => ({ type: 'orders' as const, item: { ...o, status: 'received' as const, purchaseId } })));
+      } catch (err) {
+        alert((err as Error).message);
+        return;
+      }
+      this.closeModal(); this.render();
+      this.showSnackbar(`${received.length} pedido(s) recibidos`);
+    });
+  }
+
+  // Delivers a received order: charges it to the client and takes the products out of the stock in one step.
+  private async renderDeliverOrderForm(order: Order): Promise<void> {
+    const [client, products] = await Promise.all([this.store.getClient(order.clientId), this.store.getProducts()]);
+    if (!client) return;
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Entregar a ${client.name}</h2><button class="close-btn">&times;</button></div>
+        <form id="deliver-order-form">
+          <ul class="sale-items">${order.lines.map(line => `<li>${line.quantity}x ${line.name} · ${formatMoney(line.quantity * line.unitPrice)}</li>`).join('')}</ul>
+          <div class="summary-card"><span>Total a cargar</span><span class="card-balance positive">${formatMoney(orderTotal(order))}</span></div>
+          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="Pedido: ${orderSummary(order.lines)}" required></div>
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${new Date().toISOString().split('T')[0]}" required></div>
+          ${this.renderInstallmentFields()}
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Entregar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('deliver-order-form') as HTMLFormElement;
+    this.setupInstallmentFields(form);
+    form.addEventListener('submit', async e => {
+      e.preventDefault();
+      const fd = new FormData(form);
+      const transactionId = generateId();
+      const items: SaleItem[] = order.lines.map(line => ({
+          productId: line.productId, name: line.name, quantity: line.quantity, unitPrice: line.unitPrice, discount: 0,
+          unitCost: products.find(p => p.id === line.productId)?.cost,
+      }));
+      try {
+        await this.store.saveSaleWithItems<Transaction>('transactions', {
+            id: transactionId, clientId: client.id, amount: orderTotal(order), items,
+            description: fd.get('description') as string, date: fd.get('date') as string,
+            installmentPlan: this.readInstallmentPlan(fd), campaignId: order.campaignId,
+        }, [{ type: 'orders', item: { ...order, status: 'delivered', transactionId } }]);
+      } catch (err) {
+        alert((err as Error).message);
+        return;
+      }
+      this.closeModal(); this.render();
+      this.showSnackbar('Pedido entregado y cargado a la cuenta del cliente');
+    });
+  }
+
+  private async renderCampaignForm(campaign?: Campaign): Promise<void> {
+    const isEditing = !!campaign;
+    const [campaigns, creditors] = await Promise.all([this.store.getCampaigns(), this.store.getCreditors()]);
+    if (creditors.length === 0) {
+        alert('Primero registra al proveedor del catálogo en Acreedores.');
+        return;
+    }
+    const creditorOptions = creditors.map(c => `<option value="${c.id}" ${campaign?.creditorId === c.id ? 'selected' : ''}>${c.name}</option>`).join('');
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Campaña</h2><button class="close-btn">&times;</button></div>
+        <form id="campaign-form">
+          <input type="hidden" name="id" value="${campaign?.id || ''}">
+          <div class="form-group"><label for="number">Número</label><input type="number" id="number" name="number" min="1" step="1" value="${campaign?.number || ''}" required></div>
+          <div class="form-group"><label for="creditorId">Proveedor</label><select id="creditorId" name="creditorId" required>${creditorOptions}</select></div>
+          <div class="form-group"><label for="startDate">Inicio</label><input type="date" id="startDate" name="startDate" value="${campaign?.startDate || new Date().toISOString().split('T')[0]}" required></div>
+          <div class="form-group"><label for="orderDeadline">Cierre de Pedidos (Opcional)</label><input type="date" id="orderDeadline" name="orderDeadline" value="${campaign?.orderDeadline || ''}"></div>
+          <div class="form-group"><label for="closeDate">Cierre de Campaña</label><input type="date" id="closeDate" name="closeDate" value="${campaign?.closeDate || ''}" required></div>
           <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
         </form>
       </div>`;
     this.showModal(modalHTML);
-    const form = document.getElementById('client-form') as HTMLFormElement;
-    form.addEventListener('submit', (e) => {
+    const form = document.getElementById('campaign-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
       e.preventDefault();
-      const formData = new FormData(form);
-      const newClient: Omit<Client, 'id'> & {id?: string} = {
-        id: formData.get('id') as string || undefined,
-        name: formData.get('name') as string,
-        phone: formData.get('phone') as string,
-      };
-      this.store.save('clients', newClient);
+      const fd = new FormData(form);
+      const number = parseInt(fd.get('number') as string);
+      const creditorId = fd.get('creditorId') as string;
+      const startDate = fd.get('startDate') as string;
+      const closeDate = fd.get('closeDate') as string;
+      const orderDeadline = fd.get('orderDeadline') as string || undefined;
+      if (closeDate < startDate || (orderDeadline && (orderDeadline < startDate || orderDeadline > closeDate))) {
+          alert('Revisa las fechas: el cierre de pedidos y el de la campaña deben quedar entre el inicio y el cierre.');
+          return;
+      }
+      if (campaigns.some(c => c.id !== campaign?.id && c.creditorId === creditorId && c.number === number)) {
+          alert(`Ya existe la campaña ${number} de este proveedor.`);
+          return;
+      }
+      await this.store.save<Campaign>('campaigns', { ...campaign, number, creditorId, startDate, closeDate, orderDeadline });
       this.closeModal(); this.render();
     });
   }
-  
-  private renderTransactionForm(transaction?: Transaction): void {
+
+  // Optional campaign select of the sale, client charge and creditor purchase forms. Empty when there are no campaigns.
+  private renderCampaignSelect(campaigns: Campaign[], creditors: Creditor[], selectedId: string | undefined, label: string): string {
+    if (campaigns.length === 0) return '';
+    const options = [...campaigns].sort((a, b) => b.startDate.localeCompare(a.startDate))
+      .map(c => `<option value="${c.id}" ${selectedId === c.id ? 'selected' : ''}>${campaignName(c, creditors)}</option>`).join('');
+    return `<div class="form-group"><label for="campaignId">${label}</label><select id="campaignId" name="campaignId"><option value="">Sin campaña</option>${options}</select></div>`;
+  }
+
+  private async renderCreditorTransactionForm(transaction?: CreditorTransaction): Promise<void> {
     const isEditing = !!transaction;
+    const [products, campaigns, creditors] = await Promise.all([this.store.getProducts(), this.store.getCampaigns(), this.store.getCreditors()]);
+    const creditorId = transaction?.creditorId || this.currentCreditorId!;
+    const today = new Date().toISOString().split('T')[0];
+    const campaignId = isEditing ? transaction.campaignId : activeCampaign(campaigns.filter(c => c.creditorId === creditorId), today)?.id;
+    const receipts = transaction ? (await this.store.getStockMovementsForSource(transaction.id)).filter(m => m.kind === 'purchase') : [];
+    // A purchase received from orders brings in several products; this form only edits its details and keeps those lines.
+    const receiptsLocked = receipts.length > 1;
+    const receipt = receipts[0];
+    let productOptions = '<option value="">Compra Manual</option>';
+    products.forEach(p => productOptions += `<option value="${p.id}" ${receipt?.productId === p.id ? 'selected' : ''}>${p.name}</option>`);
+
     const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Transacción</h2><button class="close-btn">&times;</button></div>
-        <form id="transaction-form">
+        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Compra/Pago</h2><button class="close-btn">&times;</button></div>
+        <form id="creditor-transaction-form">
           <input type="hidden" name="id" value="${transaction?.id || ''}">
-          <div class="form-group"><label for="amount">Monto (Use '-' para abonos)</label><input type="number" id="amount" name="amount" step="0.01" value="${transaction?.amount || ''}" required></div>
+          <div class="form-group"><label for="amount">Monto (Use '-' para pagos)</label><input type="number" id="amount" name="amount" step="0.01" value="${transaction ? toMajor(transaction.amount) : ''}" required></div>
           <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${transaction?.description || ''}" required></div>
           <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${transaction?.date || new Date().toISOString().split('T')[0]}" required></div>
+          <div class="form-group"><label for="dueDate">Fecha de Vencimiento (Compras, Opcional)</label><input type="date" id="dueDate" name="dueDate" value="${transaction?.dueDate || ''}"></div>
+          ${this.renderCampaignSelect(campaigns, creditors, campaignId, 'Campaña (Compras, Opcional)')}
+          ${receiptsLocked ? `
+          <fieldset><legend>Productos Recibidos</legend>
+            <ul class="sale-items">${receipts.map(m => `<li>${m.quantity}x ${products.find(p => p.id === m.productId)?.name || 'Producto eliminado'}</li>`).join('')}</ul>
+            <p class="card-body">Los productos de esta compra no se pueden cambiar aquí. Si cambias el monto, el costo de cada uno se ajusta en la misma proporción.</p>
+          </fieldset>` : `
+          <fieldset><legend>Añadir a Inventario</legend>
+            <p class="card-body">El costo unitario se calcula dividiendo el monto entre la cantidad recibida.</p>
+            <div class="form-group"><label for="productId">Producto</label><select name="productId">${productOptions}</select></div>
+            <div class="form-group"><label for="quantity">Cantidad Recibida</label><input type="number" name="quantity" min="0" value="${receipt?.quantity || ''}"></div>
+          </fieldset>`}
           <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
         </form>
       </div>`;
     this.showModal(modalHTML);
-    const form = document.getElementById('transaction-form') as HTMLFormElement;
-    form.addEventListener('submit', (e) => {
+    const form = document.getElementById('creditor-transaction-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
         e.preventDefault();
-        const formData = new FormData(form);
-        const newTransaction: Omit<Transaction, 'id'> & {id?: string} = {
-            id: formData.get('id') as string || undefined,
-            clientId: transaction?.clientId || this.currentClientId!,
-            amount: parseFloat(formData.get('amount') as string),
-            description: formData.get('description') as string,
-            date: formData.get('date') as string,
-        };
-        this.store.save('transactions', newTransaction);
+        const fd = new FormData(form);
+        const productId = fd.get('productId') as string;
+        const quantity = parseInt(fd.get('quantity') as string);
+        const amount = this.readMoney(fd, 'amount');
+        if (amount === null) return;
+        if (receiptsLocked && amount <= 0) {
+            alert('Esta compra recibió productos, así que su monto debe ser positivo.');
+            return;
+        }
+        const scale = transaction?.amount ? amount / transaction.amount : 1;
+        const movements = receiptsLocked
+            ? receipts.map(m => ({ productId: m.productId, quantity: m.quantity, kind: 'purchase' as const, unitCost: m.unitCost === undefined ? undefined : Math.round(m.unitCost * scale) }))
+            : productId && quantity > 0
+                ? [{ productId, quantity, kind: 'purchase' as const, unitCost: Math.round(Math.abs(amount) / quantity) }]
+                : [];
+
+        try {
+            await this.store.saveWithStockMovements<CreditorTransaction>('creditorTransactions', {
+                ...transaction,
+                id: fd.get('id') as string || undefined,
+                creditorId,
+                amount,
+                description: fd.get('description') as string, date: fd.get('date') as string,
+                dueDate: amount > 0 && fd.get('dueDate') ? fd.get('dueDate') as string : undefined,
+                campaignId: amount > 0 && fd.get('campaignId') ? fd.get('campaignId') as string : undefined,
+            }, movements);
+        } catch (err) {
+            alert((err as Error).message);
+            return;
+        }
         this.closeModal(); this.render();
     });
   }
 
-  private renderSaleForm(sale?: Sale): void {
-    const isEditing = !!sale;
-    const clients = this.store.getClients();
-    let clientOptions = '<option value="">Venta General (Sin Cliente)</option>';
-    clients.forEach(c => clientOptions += `<option value="${c.id}">${c.name}</option>`);
+  private async renderStockHistory(productId: string): Promise<void> {
+    const product = await this.store.getProduct(productId);
+    if (!product) return;
+    const movements = (await this.store.getStockMovementsForProduct(productId))
+        .sort((a, b) => a.date.localeCompare(b.date));
 
-    const products = this.store.getProducts();
-    let productOptions = '<option value="">Venta Manual</option>';
-    products.filter(p => p.quantity > 0).forEach(p => productOptions += `<option value="${p.id}" data-price="${p.price}" data-desc="${p.name}">${p.name} (Stock: ${p.quantity})</option>`);
+    let running = 0;
+    const rows = movements.map(m => {
+        running += m.quantity;
+        return `<tr><td>${formatDate(m.date)}<br><small>${STOCK_MOVEMENT_LABELS[m.kind]}${m.note ? ` · ${m.note}` : ''}</small></td>
+          <td class="${m.quantity >= 0 ? 'positive' : 'negative'}">${m.quantity > 0 ? '+' : ''}${m.quantity}</td><td>${running}</td></tr>`;
+    }).reverse().join('');
 
     const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Venta</h2><button class="close-btn">&times;</button></div>
-        <form id="sale-form">
-          <input type="hidden" name="id" value="${sale?.id || ''}">
-          ${!isEditing ? `
-          <div class="form-group"><label for="clientId">Asociar a Cliente (Opcional)</label><select id="clientId" name="clientId">${clientOptions}</select></div>
-          <div class="form-group"><label for="productId">Vender de Inventario (Opcional)</label><select id="productId" name="productId">${productOptions}</select></div>
-          <div class="form-group hidden" id="quantity-group"><label for="quantity">Cantidad</label><input type="number" id="quantity" name="quantity" value="1" min="1"></div>
-          ` : ''}
-          <div class="form-group"><label for="amount">Monto</label><input type="number" id="amount" name="amount" step="0.01" value="${sale?.amount || ''}" required ${!isEditing ? 'readonly' : ''}></div>
-          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${sale?.description || ''}" required></div>
-          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${sale?.date || new Date().toISOString().split('T')[0]}" required></div>
+        <div class="modal-header"><h2 class="modal-title">Movimientos: ${product.name}</h2><button class="close-btn">&times;</button></div>
+        <p class="card-body">Stock actual: <strong>${product.quantity}</strong></p>
+        ${rows ? `<table class="data-table"><thead><tr><th>Fecha</th><th>Cant.</th><th>Stock</th></tr></thead><tbody>${rows}</tbody></table>`
+               : '<div class="empty-state"><p>No hay movimientos registrados.</p></div>'}
+        <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cerrar</button><button type="button" id="add-movement-btn" class="btn btn-primary">Registrar Movimiento</button></div>
+      </div>`;
+    this.showModal(modalHTML);
+    document.getElementById('add-movement-btn')?.addEventListener('click', () => this.renderStockMovementForm(product));
+  }
+
+  private renderStockMovementForm(product: Product): void {
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Nuevo Movimiento</h2><button class="close-btn">&times;</button></div>
+        <form id="stock-movement-form">
+          <p class="card-body">${product.name} · Stock actual: ${product.quantity}</p>
+          <div class="form-group"><label for="kind">Tipo</label><select id="kind" name="kind">
+            <option value="adjustment">${STOCK_MOVEMENT_LABELS.adjustment}</option>
+            <option value="return">${STOCK_MOVEMENT_LABELS.return}</option>
+            <option value="initial">${STOCK_MOVEMENT_LABELS.initial}</option>
+          </select></div>
+          <div class="form-group"><label for="quantity">Cantidad (Use '-' para salidas)</label><input type="number" id="quantity" name="quantity" step="1" required></div>
+          <div class="form-group"><label for="note">Nota</label><input type="text" id="note" name="note" placeholder="Producto dañado, conteo físico..."></div>
+          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${new Date().toISOString().split('T')[0]}" required></div>
           <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
         </form>
       </div>`;
     this.showModal(modalHTML);
-    const form = document.getElementById('sale-form') as HTMLFormElement;
-    const productSelect = form.querySelector('#productId') as HTMLSelectElement;
-    const quantityInput = form.querySelector('#quantity') as HTMLInputElement;
-    const quantityGroup = form.querySelector('#quantity-group') as HTMLDivElement;
-    const amountInput = form.querySelector('#amount') as HTMLInputElement;
-    const descriptionInput = form.querySelector('#description') as HTMLInputElement;
-
-    const updateSaleForm = () => {
-        const selectedOption = productSelect.options[productSelect.selectedIndex];
-        const price = parseFloat(selectedOption.dataset.price || '0');
-        const quantity = parseInt(quantityInput.value) || 1;
-        if (price > 0) {
-            amountInput.value = (price * quantity).toString();
-            amountInput.readOnly = true;
-            descriptionInput.value = selectedOption.dataset.desc || '';
-            quantityGroup.classList.remove('hidden');
-            const product = this.store.getProduct(productSelect.value);
-            if (product) quantityInput.max = product.quantity.toString();
-        } else {
-            amountInput.readOnly = false;
-            quantityGroup.classList.add('hidden');
+    const form = document.getElementById('stock-movement-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+        e.preventDefault();
+        const fd = new FormData(form);
+        const quantity = parseInt(fd.get('quantity') as string);
+        if (!quantity) {
+            alert('La cantidad no puede ser cero.');
+            return;
         }
-    };
+        try {
+            await this.store.addStockMovement({
+                productId: product.id, kind: fd.get('kind') as StockMovementKind, quantity,
+                date: fd.get('date') as string, note: (fd.get('note') as string) || undefined,
+            });
+        } catch (err) {
+            alert((err as Error).message);
+            return;
+        }
+        this.render();
+        this.renderStockHistory(product.id);
+    });
+  }
 
-    if (!isEditing) {
-        productSelect?.addEventListener('change', updateSaleForm);
-        quantityInput?.addEventListener('input', updateSaleForm);
-    }
-    
-    form.addEventListener('submit', e => {
-      e.preventDefault();
-      const fd = new FormData(form);
-      const clientId = fd.get('clientId') as string;
-      const productId = fd.get('productId') as string;
-      const quantity = parseInt(fd.get('quantity') as string);
-      
-      if (!isEditing && productId) {
-          const product = this.store.getProduct(productId);
-          if (product && product.quantity >= quantity) {
-              product.quantity -= quantity;
-              this.store.save('products', product);
-          } else {
-              alert('No hay suficiente stock para esta venta.');
-              return;
-          }
-      }
+  private async renderRestorePreview(backup: BackupFile): Promise<void> {
+    const current = await this.store.exportAll();
+    let rows = '';
+    ENTITY_TYPES.forEach(type => {
+        rows += `<tr><td>${ENTITY_LABELS[type]}</td><td>${backup.data[type].length}</td><td>${current[type].length}</td></tr>`;
+    });
 
-      if (!isEditing && clientId) {
-        this.store.save<Transaction>('transactions', {
-          clientId: clientId, amount: Math.abs(parseFloat(fd.get('amount') as string)),
-          description: fd.get('description') as string, date: fd.get('date') as string,
-        });
-      } else {
-        this.store.save<Sale>('sales', {
-          id: fd.get('id') as string || undefined, amount: parseFloat(fd.get('amount') as string),
-          description: fd.get('description') as string, date: fd.get('date') as string,
-        });
-      }
-      this.closeModal(); this.render();
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Restaurar Respaldo</h2><button class="close-btn">&times;</button></div>
+        <form id="restore-form">
+          <p class="card-body">Respaldo del ${formatDateTime(backup.exportedAt)}</p>
+          <table class="data-table">
+            <thead><tr><th></th><th>Respaldo</th><th>Actual</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+          <fieldset><legend>Modo de Restauración</legend>
+            <div class="form-group"><label><input type="radio" name="mode" value="merge" checked> Combinar: conservar los datos actuales y actualizar los registros con el mismo id</label></div>
+            <div class="form-group"><label><input type="radio" name="mode" value="replace"> Reemplazar: borrar los datos actuales y dejar solo los del respaldo</label></div>
+          </fieldset>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Restaurar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('restore-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+        e.preventDefault();
+        const mode = new FormData(form).get('mode') as 'replace' | 'merge';
+        if (mode === 'replace' && !confirm('¿Estás seguro? Se borrarán todos los datos actuales y se reemplazarán por los del respaldo.')) return;
+        try {
+            await this.store.importAll(backup.data, mode);
+        } catch (err) {
+            alert(`No se pudo restaurar el respaldo. Tus datos no fueron modificados.\n\n${(err as Error).message}`);
+            return;
+        }
+        this.closeModal();
+        alert('Respaldo restaurado correctamente.');
+        this.render();
     });
   }
 
-  private renderExpenseForm(expense?: Expense): void {
-    const isEditing = !!expense;
-    const creditors = this.store.getCreditors();
-    let creditorOptions = '<option value="">Gasto General</option>';
-    creditors.forEach(c => creditorOptions += `<option value="${c.id}" ${expense?.creditorId === c.id ? 'selected': ''}>Pago a: ${c.name}</option>`);
+  // Step 1 of the CSV import: match each field to a column of the file.
+  private renderCsvMappingForm(type: CsvEntityType, decimal: DecimalSeparator, rows: string[][], mapping?: Record<string, number>): void {
+    const headers = rows[0];
+    let fields = '';
+    CSV_COLUMNS[type].forEach(column => {
+        const guess = mapping ? mapping[column.field] : headers.findIndex(h => normalizeText(h) === normalizeText(column.header));
+        let options = `<option value="-1">(No importar)</option>`;
+        headers.forEach((h, i) => options += `<option value="${i}" ${guess === i ? 'selected' : ''}>${h || `Columna ${i + 1}`}</option>`);
+        fields += `<div class="form-group"><label for="map-${column.field}">${column.header}${column.required ? ' *' : ''}</label><select id="map-${column.field}" name="${column.field}">${options}</select></div>`;
+    });
 
     const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Gasto</h2><button class="close-btn">&times;</button></div>
-        <form id="expense-form">
-          <input type="hidden" name="id" value="${expense?.id || ''}">
-          <div class="form-group"><label for="creditorId">Asociar a Acreedor (Opcional)</label><select id="creditorId" name="creditorId">${creditorOptions}</select></div>
-          <div class="form-group"><label for="amount">Monto</label><input type="number" id="amount" name="amount" step="0.01" value="${expense?.amount || ''}" required></div>
-          <div class="form-group"><label for="category">Categoría</label><input type="text" id="category" name="category" value="${expense?.category || ''}" placeholder="Transporte, Comida..." required></div>
-          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${expense?.description || ''}" required></div>
-          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${expense?.date || new Date().toISOString().split('T')[0]}" required></div>
-          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        <div class="modal-header"><h2 class="modal-title">Importar ${ENTITY_LABELS[type]}</h2><button class="close-btn">&times;</button></div>
+        <form id="csv-mapping-form">
+          <p class="card-body">${rows.length - 1} filas encontradas. Indica qué columna del archivo corresponde a cada campo.</p>
+          ${fields}
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Vista Previa</button></div>
         </form>
       </div>`;
     this.showModal(modalHTML);
-    const form = document.getElementById('expense-form') as HTMLFormElement;
+    const form = document.getElementById('csv-mapping-form') as HTMLFormElement;
     form.addEventListener('submit', e => {
-      e.preventDefault();
-      const fd = new FormData(form);
-      const creditorId = fd.get('creditorId') as string;
-      const amount = parseFloat(fd.get('amount') as string);
-      
-      this.store.save<Expense>('expenses', {
-        id: fd.get('id') as string || undefined, amount: amount,
-        category: fd.get('category') as string, description: fd.get('description') as string,
-        date: fd.get('date') as string, creditorId: creditorId || undefined,
-      });
-
-      if (creditorId && !isEditing) {
-          this.store.save<CreditorTransaction>('creditorTransactions', {
-              creditorId, amount: -Math.abs(amount), // Payment is negative
-              description: `Pago registrado desde gastos: ${fd.get('description') as string}`,
-              date: fd.get('date') as string,
-          });
-      }
-
-      this.closeModal(); this.render();
+        e.preventDefault();
+        const fd = new FormData(form);
+        const newMapping: Record<string, number> = {};
+        CSV_COLUMNS[type].forEach(column => newMapping[column.field] = parseInt(fd.get(column.field) as string));
+        const missing = CSV_COLUMNS[type].filter(c => c.required && newMapping[c.field] < 0);
+        if (missing.length > 0) {
+            alert(`Debes asignar una columna a: ${missing.map(c => c.header).join(', ')}`);
+            return;
+        }
+        this.renderCsvPreview(type, decimal, rows, newMapping);
     });
   }
 
-  private renderProductForm(product?: Product): void {
-      const isEditing = !!product;
-      const modalHTML = `
+  // Step 2 of the CSV import: validate every row without saving anything.
+  private async renderCsvPreview(type: CsvEntityType, decimal: DecimalSeparator, rows: string[][], mapping: Record<string, number>): Promise<void> {
+    const lookups = { clients: await this.store.getClients(), creditors: await this.store.getCreditors(), categories: await this.store.getCategories() };
+    const columns = CSV_COLUMNS[type];
+    const valid: Record<string, unknown>[] = [];
+    const errors: string[] = [];
+    rows.slice(1).forEach((row, i) => {
+        const values: Record<string, string> = {};
+        columns.forEach(c => values[c.field] = mapping[c.field] >= 0 ? row[mapping[c.field]] || '' : '');
+        try {
+            valid.push(csvRowToRecord(type, values, lookups, decimal));
+        } catch (err) {
+            errors.push(`Fila ${i + 2}: ${(err as Error).message}`);
+        }
+    });
+
+    const sample = valid.slice(0, 5).map(record => `<tr>${columns.map(c => `<td>${
+        c.kind === 'client' ? lookups.clients.find(x => x.id === record[c.field])?.name || ''
+        : c.kind === 'creditor' ? lookups.creditors.find(x => x.id === record[c.field])?.name || ''
+        : c.kind === 'category' ? lookups.categories.find(x => x.id === record[c.field])?.name || ''
+        : record[c.field] ?? ''}</td>`).join('')}</tr>`).join('');
+
+    const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Producto</h2><button class="close-btn">&times;</button></div>
-        <form id="product-form">
-          <input type="hidden" name="id" value="${product?.id || ''}">
-          <div class="form-group"><label for="name">Nombre</label><input type="text" name="name" value="${product?.name || ''}" required></div>
-          <div class="form-group"><label for="description">Descripción</label><input type="text" name="description" value="${product?.description || ''}"></div>
-          <div class="form-group"><label for="price">Precio de Venta</label><input type="number" name="price" step="0.01" value="${product?.price || ''}" required></div>
-          <div class="form-group"><label for="quantity">Cantidad en Stock</label><input type="number" name="quantity" value="${product?.quantity || '0'}" required></div>
-          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        <div class="modal-header"><h2 class="modal-title">Vista Previa</h2><button class="close-btn">&times;</button></div>
+        <form id="csv-preview-form">
+          <p class="card-body">${valid.length} registros listos para importar${errors.length ? `, ${errors.length} con errores que se omitirán` : ''}. Todavía no se ha guardado nada.</p>
+          ${valid.length ? `<table class="data-table"><thead><tr>${columns.map(c => `<th>${c.header}</th>`).join('')}</tr></thead><tbody>${sample}</tbody></table>` : ''}
+          ${errors.length ? `<fieldset><legend>Errores</legend><ul class="error-list">${errors.map(e => `<li>${e}</li>`).join('')}</ul></fieldset>` : ''}
+          <div class="form-actions"><button type="button" id="csv-back-btn" class="btn btn-secondary">Volver</button><button type="submit" class="btn btn-primary" ${valid.length ? '' : 'disabled'}>Importar ${valid.length}</button></div>
         </form>
       </div>`;
-      this.showModal(modalHTML);
-      const form = document.getElementById('product-form') as HTMLFormElement;
-      form.addEventListener('submit', e => {
+    this.showModal(modalHTML);
+    document.getElementById('csv-back-btn')?.addEventListener('click', () => this.renderCsvMappingForm(type, decimal, rows, mapping));
+    const form = document.getElementById('csv-preview-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+        e.preventDefault();
+        for (const record of valid) {
+            if (type === 'products') {
+                const { quantity, ...product } = record as unknown as Product;
+                await this.store.saveProduct(product, { quantity });
+            } else {
+                await this.store.save(type, record as Omit<Entity, 'id'>);
+            }
+        }
+        this.closeModal();
+        alert(`Se importaron ${valid.length} registros.`);
+        this.render();
+    });
+  }
+
+  // --- PIN LOCK ---
+  // Shows the lock screen and resolves once the right PIN has been entered.
+  private showLockScreen(): Promise<void> {
+    return new Promise(resolve => {
+      this.lockScreen.innerHTML = `
+        <form id="unlock-form" class="lock-form">
+          <i class="fas fa-lock lock-icon"></i>
+          <h2>Gestión de Ventas y Finanzas</h2>
+          <div class="form-group"><label for="pin">PIN o frase de acceso</label><input type="password" id="pin" name="pin" autocomplete="current-password" required></div>
+          <p id="unlock-error" class="lock-error hidden"></p>
+          <button type="submit" class="btn btn-primary">Desbloquear</button>
+          <button type="button" id="forgot-pin-btn" class="btn btn-secondary">Olvidé mi PIN</button>
+        </form>`;
+      this.lockScreen.classList.remove('hidden');
+      const form = document.getElementById('unlock-form') as HTMLFormElement;
+      const pinInput = form.querySelector('#pin') as HTMLInputElement;
+      const errorText = form.querySelector('#unlock-error') as HTMLElement;
+      const submitButton = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+      pinInput.focus();
+      form.addEventListener('submit', async e => {
           e.preventDefault();
-          const fd = new FormData(form);
-          this.store.save<Product>('products', {
-              id: fd.get('id') as string || undefined,
-              name: fd.get('name') as string, description: fd.get('description') as string,
-              price: parseFloat(fd.get('price') as string), quantity: parseInt(fd.get('quantity') as string),
-          });
-          this.closeModal(); this.render();
+          submitButton.disabled = true;
+          try {
+              await this.store.unlock(pinInput.value);
+          } catch (err) {
+              errorText.textContent = (err as Error).message;
+              errorText.classList.remove('hidden');
+              pinInput.select();
+              return;
+          } finally {
+              submitButton.disabled = false;
+          }
+          this.lockScreen.classList.add('hidden');
+          this.lockScreen.innerHTML = '';
+          this.lastActivity = Date.now();
+          resolve();
+      });
+      document.getElementById('forgot-pin-btn')?.addEventListener('click', async () => {
+          if (!confirm('Los datos están cifrados con tu PIN. Sin él no hay forma de descifrarlos: nadie puede recuperarlos.\n\nLa única salida es borrar todos los datos de este dispositivo y empezar de nuevo, o restaurar después un respaldo descargado. ¿Borrar todo?')) return;
+          if (!confirm('¿Seguro? Se eliminarán definitivamente todos los clientes, ventas, gastos, productos y acreedores de este dispositivo.')) return;
+          await this.store.destroy();
+          window.location.reload();
       });
+    });
   }
-  
-  private renderCreditorForm(creditor?: Creditor): void {
-    const isEditing = !!creditor;
+
+  private lock(): void {
+    if (this.store.isLocked || !this.store.isLockEnabled) return;
+    this.store.lock();
+    this.closeModal();
+    document.body.classList.remove('searching');
+    this.appContent.innerHTML = '';
+    this.showLockScreen().then(() => this.render());
+  }
+
+  // Locks after the chosen minutes without any interaction, also when coming back to the app after that long away
+  // (timers don't run reliably while it is in the background).
+  private setupAutoLock(): void {
+    ['pointerdown', 'keydown'].forEach(type => document.addEventListener(type, () => this.lastActivity = Date.now(), { passive: true }));
+    const check = () => {
+      const minutes = this.store.autoLockMinutes;
+      if (minutes && !this.store.isLocked && Date.now() - this.lastActivity >= minutes * 60 * 1000) this.lock();
+    };
+    window.setInterval(check, 15 * 1000);
+    document.addEventListener('visibilitychange', () => { if (!document.hidden) check(); });
+  }
+
+  private renderSecurityCard(): string {
+    if (!this.store.isLockEnabled) {
+      return `
+        <div class="card">
+          <div class="card-header"><span class="card-title"><i class="fas fa-lock" style="margin-right: 8px;"></i> Seguridad</span></div>
+          <p class="card-body">Pide un PIN o una frase al abrir la app y guarda los datos cifrados en este dispositivo, para que nadie más que use el teléfono pueda verlos.</p>
+          <p class="card-body">${LOCK_COVERAGE_NOTE}</p>
+          <div class="client-actions"><button id="enable-lock-btn" class="btn btn-primary">Activar bloqueo con PIN</button></div>
+        </div>`;
+    }
+    const minutes = this.store.autoLockMinutes;
+    return `
+      <div class="card">
+        <div class="card-header"><span class="card-title"><i class="fas fa-lock" style="margin-right: 8px;"></i> Seguridad</span><span class="badge badge-success">Activado</span></div>
+        <p class="card-body">Los datos están cifrados y se pide tu PIN al abrir la app. Si olvidas el PIN no se pueden recuperar.</p>
+        <p class="card-body">${LOCK_COVERAGE_NOTE}</p>
+        <div class="form-group"><label for="autoLockMinutes">Bloquear tras inactividad</label>
+          <select id="autoLockMinutes">${AUTO_LOCK_OPTIONS.map(m => `<option value="${m}" ${m === minutes ? 'selected' : ''}>${m} ${m === 1 ? 'minuto' : 'minutos'}</option>`).join('')}</select></div>
+        <div class="client-actions">
+          <button id="lock-now-btn" class="btn btn-primary"><i class="fas fa-lock"></i> Bloquear ahora</button>
+          <button id="change-pin-btn" class="btn btn-secondary">Cambiar PIN</button>
+          <button id="disable-lock-btn" class="btn btn-danger">Desactivar</button>
+        </div>
+      </div>`;
+  }
+
+  private setupSecurityCard(): void {
+    document.getElementById('enable-lock-btn')?.addEventListener('click', () => this.renderEnableLockForm());
+    document.getElementById('lock-now-btn')?.addEventListener('click', () => this.lock());
+    document.getElementById('change-pin-btn')?.addEventListener('click', () => this.renderChangePinForm());
+    document.getElementById('disable-lock-btn')?.addEventListener('click', () => this.renderDisableLockForm());
+    document.getElementById('autoLockMinutes')?.addEventListener('change', async e => {
+        await this.store.setAutoLockMinutes(parseInt((e.target as HTMLSelectElement).value));
+        this.showSnackbar('Bloqueo automático actualizado');
+    });
+  }
+
+  // Returns the new PIN, or null after telling the user what is wrong with it.
+  private readNewPin(fd: FormData): string | null {
+    const pin = fd.get('newPin') as string;
+    if (pin.length < MIN_PIN_LENGTH) {
+        alert(`El PIN debe tener al menos ${MIN_PIN_LENGTH} caracteres.`);
+        return null;
+    }
+    if (pin !== fd.get('confirmPin')) {
+        alert('Los PIN no coinciden.');
+        return null;
+    }
+    return pin;
+  }
+
+  private renderEnableLockForm(): void {
     const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nuevo'} Acreedor</h2><button class="close-btn">&times;</button></div>
-        <form id="creditor-form">
-          <input type="hidden" name="id" value="${creditor?.id || ''}">
-          <div class="form-group"><label for="name">Nombre</label><input type="text" name="name" value="${creditor?.name || ''}" required></div>
-          <div class="form-group"><label for="phone">Teléfono</label><input type="tel" name="phone" value="${creditor?.phone || ''}"></div>
-          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        <div class="modal-header"><h2 class="modal-title">Activar Bloqueo</h2><button class="close-btn">&times;</button></div>
+        <form id="enable-lock-form">
+          <div class="form-group"><label for="newPin">PIN o Frase</label><input type="password" id="newPin" name="newPin" minlength="${MIN_PIN_LENGTH}" autocomplete="new-password" required></div>
+          <div class="form-group"><label for="confirmPin">Repetir PIN</label><input type="password" id="confirmPin" name="confirmPin" autocomplete="new-password" required></div>
+          <div class="form-group"><label for="autoLock">Bloquear tras inactividad</label>
+            <select id="autoLock" name="autoLock">${AUTO_LOCK_OPTIONS.map(m => `<option value="${m}" ${m === 5 ? 'selected' : ''}>${m} ${m === 1 ? 'minuto' : 'minutos'}</option>`).join('')}</select></div>
+          <div class="card-body">
+            <p><strong>Si olvidas el PIN, tus datos no se podrán recuperar.</strong> No hay forma de restablecerlo: la única salida sería borrar todo.</p>
+            <p>Descarga un respaldo antes y guárdalo en un lugar seguro. Los respaldos descargados no van cifrados.</p>
+          </div>
+          <div class="form-group"><label><input type="checkbox" name="understood" required> Entiendo que si olvido el PIN pierdo mis datos</label></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Activar</button></div>
         </form>
       </div>`;
     this.showModal(modalHTML);
-    const form = document.getElementById('creditor-form') as HTMLFormElement;
-    form.addEventListener('submit', e => {
-      e.preventDefault();
-      const fd = new FormData(form);
-      this.store.save<Creditor>('creditors', {
-        id: fd.get('id') as string || undefined,
-        name: fd.get('name') as string, phone: fd.get('phone') as string,
-      });
-      this.closeModal(); this.render();
+    const form = document.getElementById('enable-lock-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+        e.preventDefault();
+        const fd = new FormData(form);
+        const pin = this.readNewPin(fd);
+        if (pin === null) return;
+        (form.querySelector('button[type="submit"]') as HTMLButtonElement).disabled = true;
+        try {
+            await this.store.enableLock(pin, parseInt(fd.get('autoLock') as string));
+        } catch (err) {
+            alert(`No se pudo activar el bloqueo. Los datos quedan como estaban.\n\n${(err as Error).message}`);
+            this.closeModal();
+            return;
+        }
+        this.lastActivity = Date.now();
+        this.closeModal(); this.render();
+        this.checkReminders();
+        this.showSnackbar('Bloqueo activado. Los datos están cifrados.');
     });
   }
-  
-  private renderCreditorTransactionForm(transaction?: CreditorTransaction): void {
-    const isEditing = !!transaction;
-    const products = this.store.getProducts();
-    let productOptions = '<option value="">Compra Manual</option>';
-    products.forEach(p => productOptions += `<option value="${p.id}">${p.name}</option>`);
 
+  private renderChangePinForm(): void {
     const modalHTML = `
       <div class="modal-content">
-        <div class="modal-header"><h2 class="modal-title">${isEditing ? 'Editar' : 'Nueva'} Compra/Pago</h2><button class="close-btn">&times;</button></div>
-        <form id="creditor-transaction-form">
-          <input type="hidden" name="id" value="${transaction?.id || ''}">
-          <div class="form-group"><label for="amount">Monto (Use '-' para pagos)</label><input type="number" id="amount" name="amount" step="0.01" value="${transaction?.amount || ''}" required></div>
-          <div class="form-group"><label for="description">Descripción</label><input type="text" id="description" name="description" value="${transaction?.description || ''}" required></div>
-          <div class="form-group"><label for="date">Fecha</label><input type="date" id="date" name="date" value="${transaction?.date || new Date().toISOString().split('T')[0]}" required></div>
-          ${!isEditing ? `
-          <fieldset><legend>Añadir a Inventario</legend>
-            <div class="form-group"><label for="productId">Producto</label><select name="productId">${productOptions}</select></div>
-            <div class="form-group"><label for="quantity">Cantidad Recibida</label><input type="number" name="quantity" min="0"></div>
-          </fieldset>
-          ` : ''}
-          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Guardar</button></div>
+        <div class="modal-header"><h2 class="modal-title">Cambiar PIN</h2><button class="close-btn">&times;</button></div>
+        <form id="change-pin-form">
+          <div class="form-group"><label for="currentPin">PIN Actual</label><input type="password" id="currentPin" name="currentPin" autocomplete="current-password" required></div>
+          <div class="form-group"><label for="newPin">PIN Nuevo</label><input type="password" id="newPin" name="newPin" minlength="${MIN_PIN_LENGTH}" autocomplete="new-password" required></div>
+          <div class="form-group"><label for="confirmPin">Repetir PIN Nuevo</label><input type="password" id="confirmPin" name="confirmPin" autocomplete="new-password" required></div>
+          <p class="card-body">Recuerda: si olvidas el PIN nuevo, tus datos no se podrán recuperar.</p>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-primary">Cambiar</button></div>
         </form>
       </div>`;
     this.showModal(modalHTML);
-    const form = document.getElementById('creditor-transaction-form') as HTMLFormElement;
-    form.addEventListener('submit', e => {
+    const form = document.getElementById('change-pin-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
         e.preventDefault();
         const fd = new FormData(form);
-        const productId = fd.get('productId') as string;
-        const quantity = parseInt(fd.get('quantity') as string);
-
-        if (productId && quantity > 0 && !isEditing) {
-            const product = this.store.getProduct(productId);
-            if (product) {
-                product.quantity += quantity;
-                this.store.save('products', product);
-            }
+        const pin = this.readNewPin(fd);
+        if (pin === null) return;
+        try {
+            await this.store.changePin(fd.get('currentPin') as string, pin);
+        } catch (err) {
+            alert((err as Error).message);
+            return;
         }
+        this.closeModal();
+        this.showSnackbar('PIN cambiado');
+    });
+  }
 
-        this.store.save<CreditorTransaction>('creditorTransactions', {
-            id: fd.get('id') as string || undefined,
-            creditorId: transaction?.creditorId || this.currentCreditorId!,
-            amount: parseFloat(fd.get('amount') as string),
-            description: fd.get('description') as string, date: fd.get('date') as string,
-        });
+  private renderDisableLockForm(): void {
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Desactivar Bloqueo</h2><button class="close-btn">&times;</button></div>
+        <form id="disable-lock-form">
+          <p class="card-body">Los datos se guardarán sin cifrar y cualquiera que abra la app podrá verlos.</p>
+          <div class="form-group"><label for="currentPin">PIN Actual</label><input type="password" id="currentPin" name="currentPin" autocomplete="current-password" required></div>
+          <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cancelar</button><button type="submit" class="btn btn-danger">Desactivar</button></div>
+        </form>
+      </div>`;
+    this.showModal(modalHTML);
+    const form = document.getElementById('disable-lock-form') as HTMLFormElement;
+    form.addEventListener('submit', async e => {
+        e.preventDefault();
+        try {
+            await this.store.disableLock(new FormData(form).get('currentPin') as string);
+        } catch (err) {
+            alert((err as Error).message);
+            return;
+        }
         this.closeModal(); this.render();
+        this.checkReminders();
+        this.showSnackbar('Bloqueo desactivado');
+    });
+  }
+
+  // --- AUDIT LOG ---
+  private formatAuditValue(field: string, value: unknown, minorUnits: boolean): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'number' && (field === 'amount' || field === 'price' || field === 'budget')) {
+      return formatMoney(minorUnits ? value : toMinor(value));
+    }
+    if (field === 'status' && typeof value === 'string' && value in ORDER_STATUS_LABELS) {
+      return ORDER_STATUS_LABELS[value as OrderStatus];
+    }
+    if (field === 'installmentPlan') {
+      const plan = value as InstallmentPlan;
+      return `${plan.count} cuotas (${INSTALLMENT_FREQUENCY_LABELS[plan.frequency].toLowerCase()}) desde ${plan.firstDueDate}`;
+    }
+    return String(value);
+  }
+
+  // For edits, lists the user-visible fields that changed; otherwise lists the record's values.
+  private describeAuditChanges(entry: AuditEntry): string {
+    const before = entry.before as unknown as Record<string, unknown> | null;
+    const after = entry.after as unknown as Record<string, unknown> | null;
+    const fields = Object.keys(AUDIT_FIELD_LABELS);
+    if (before && after && (entry.action === 'update' || entry.action === 'import' || entry.action === 'sync')) {
+        return fields.filter(f => before[f] !== after[f])
+            .map(f => `<li>${AUDIT_FIELD_LABELS[f]}: ${this.formatAuditValue(f, before[f], !!entry.minorUnits)} → ${this.formatAuditValue(f, after[f], !!entry.minorUnits)}</li>`).join('');
+    }
+    const record = after || before;
+    return fields.filter(f => f in record).map(f => `<li>${AUDIT_FIELD_LABELS[f]}: ${this.formatAuditValue(f, record[f], !!entry.minorUnits)}</li>`).join('');
+  }
+
+  private async renderAuditLog(ownerId: string): Promise<void> {
+    const entries = await this.store.getAuditLogForOwner(ownerId);
+    let items = '';
+    entries.forEach(entry => {
+        const record = (entry.after || entry.before)!;
+        const changes = this.describeAuditChanges(entry);
+        items += `
+          <div class="card">
+            <div class="card-header">
+              <span class="card-title">${AUDIT_ACTION_LABELS[entry.action]}</span>
+              <span class="card-body">${formatDateTime(entry.timestamp)}</span>
+            </div>
+            <div class="card-body">${entry.entityId === ownerId ? ENTITY_LABELS[entry.entityType] : this.describeEntity(entry.entityType, record)}
+              ${changes ? `<ul class="audit-changes">${changes}</ul>` : ''}
+            </div>
+          </div>`;
+    });
+
+    const modalHTML = `
+      <div class="modal-content">
+        <div class="modal-header"><h2 class="modal-title">Historial de cambios</h2><button class="close-btn">&times;</button></div>
+        <div class="item-list">${items || '<div class="empty-state"><p>No hay cambios registrados.</p></div>'}</div>
+        <div class="form-actions"><button type="button" class="btn btn-secondary close-btn">Cerrar</button></div>
+      </div>`;
+    this.showModal(modalHTML);
+  }
+
+  // --- SNACKBAR ---
+  private showSnackbar(message: string, actionLabel?: string, onAction?: () => void): void {
+    clearTimeout(this.snackbarTimer);
+    this.snackbar.innerHTML = `<span>${message}</span>${actionLabel ? `<button class="snackbar-action">${actionLabel}</button>` : ''}`;
+    this.snackbar.classList.remove('hidden');
+    this.snackbar.querySelector('.snackbar-action')?.addEventListener('click', () => {
+        this.hideSnackbar();
+        onAction?.();
     });
+    this.snackbarTimer = window.setTimeout(() => this.hideSnackbar(), 6000);
+  }
+
+  private hideSnackbar(): void {
+    clearTimeout(this.snackbarTimer);
+    this.snackbar.classList.add('hidden');
+    this.snackbar.innerHTML = '';
   }
 
   // --- MODAL UTILS ---
+  // Reads an amount field in minor units, telling the user when it isn't a valid amount.
+  private readMoney(fd: FormData, field: string, label = 'El monto'): Money | null {
+    const amount = parseMoney(fd.get(field) as string);
+    if (isNaN(amount)) {
+      alert(`${label} no es válido. Usa solo números, con punto para los decimales, hasta ${formatMoney(MAX_MONEY, 0)}.`);
+      return null;
+    }
+    return amount;
+  }
+
   private showModal(innerHTML: string): void {
     this.modalContainer.innerHTML = innerHTML;
     this.modalContainer.classList.remove('hidden');
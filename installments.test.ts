@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { InstallmentPlan, Transaction } from './types';
+import { buildInstallments, computeInstallmentStatus, installmentDueDate } from './installments';
+
+const charge = (id: string, amount: number, date: string, installmentPlan?: InstallmentPlan): Transaction =>
+  ({ id, clientId: 'c1', amount, date, description: '', installmentPlan });
+
+describe('installmentDueDate', () => {
+  it('steps weekly and biweekly installments by days', () => {
+    expect(installmentDueDate({ count: 3, frequency: 'weekly', firstDueDate: '2026-12-28' }, 1)).toBe('2027-01-04');
+    expect(installmentDueDate({ count: 3, frequency: 'biweekly', firstDueDate: '2026-02-20' }, 1)).toBe('2026-03-06');
+  });
+
+  it('keeps the day of the month, clamped to short months', () => {
+    const plan: InstallmentPlan = { count: 4, frequency: 'monthly', firstDueDate: '2026-01-31' };
+    expect([0, 1, 2, 3].map(i => installmentDueDate(plan, i))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+});
+
+describe('buildInstallments', () => {
+  it('splits the amount into equal shares and puts the rounding difference on the last one', () => {
+    const installments = buildInstallments(10000, { count: 3, frequency: 'monthly', firstDueDate: '2026-01-15' });
+    expect(installments).toEqual([
+      { number: 1, dueDate: '2026-01-15', amount: 3333 },
+      { number: 2, dueDate: '2026-02-15', amount: 3333 },
+      { number: 3, dueDate: '2026-03-15', amount: 3334 },
+    ]);
+  });
+
+  it('never loses or adds a cent', () => {
+    [1, 7, 99999, 1234567].forEach(amount => [1, 2, 3, 6, 12].forEach(count => {
+      const installments = buildInstallments(amount, { count, frequency: 'weekly', firstDueDate: '2026-01-01' });
+      expect(installments.reduce((sum, i) => sum + i.amount, 0)).toBe(amount);
+    }));
+  });
+});
+
+describe('computeInstallmentStatus', () => {
+  const plan: InstallmentPlan = { count: 3, frequency: 'monthly', firstDueDate: '2026-02-01' };
+
+  it('applies payments to the oldest open installment first', () => {
+    const statuses = computeInstallmentStatus([charge('t1', 30000, '2026-01-01', plan), charge('p1', -15000, '2026-02-05')], '2026-03-10');
+    expect(statuses.map(s => [s.number, s.paid, s.overdue])).toEqual([[1, 10000, false], [2, 5000, true], [3, 0, false]]);
+  });
+
+  it('settles plain charges due earlier before the installments', () => {
+    const statuses = computeInstallmentStatus([
+      charge('t1', 30000, '2026-01-15', plan),
+      charge('t0', 4000, '2026-01-10'),
+      charge('p1', -12000, '2026-02-01'),
+    ], '2026-02-02');
+    expect(statuses.map(s => [s.number, s.paid, s.overdue])).toEqual([[1, 8000, true], [2, 0, false], [3, 0, false]]);
+  });
+
+  it('marks nothing overdue once everything is paid', () => {
+    const statuses = computeInstallmentStatus([charge('t1', 30000, '2026-01-01', plan), charge('p1', -30000, '2026-01-02')], '2027-01-01');
+    expect(statuses.every(s => s.paid === s.amount && !s.overdue)).toBe(true);
+    expect(statuses.every(s => s.transaction.id === 't1')).toBe(true);
+  });
+});
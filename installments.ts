@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { InstallmentFrequency, InstallmentPlan, Money, Transaction } from './types';
+import { sumMoney } from './money';
+
+export const INSTALLMENT_FREQUENCY_LABELS: Record<InstallmentFrequency, string> = {
+  weekly: 'Semanal',
+  biweekly: 'Quincenal',
+  monthly: 'Mensual',
+};
+
+export interface Installment {
+  number: number; // 1-based
+  dueDate: string;
+  amount: Money;
+}
+
+export interface InstallmentStatus extends Installment {
+  transaction: Transaction;
+  paid: Money;
+  overdue: boolean;
+}
+
+// 'YYYY-MM-DD' date of the n-th installment. Monthly installments keep the day of the month, clamped to the month's end.
+export function installmentDueDate(plan: InstallmentPlan, index: number): string {
+  const [year, month, day] = plan.firstDueDate.split('-').map(Number);
+  let date: Date;
+  if (plan.frequency === 'monthly') {
+    const lastDay = new Date(Date.UTC(year, month + index, 0)).getUTCDate();
+    date = new Date(Date.UTC(year, month - 1 + index, Math.min(day, lastDay)));
+  } else {
+    date = new Date(Date.UTC(year, month - 1, day + index * (plan.frequency === 'weekly' ? 7 : 14)));
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// Splits the charge into equal installments; the last one absorbs the rounding difference.
+export function buildInstallments(amount: Money, plan: InstallmentPlan): Installment[] {
+  const share = Math.round(amount / plan.count);
+  return Array.from({ length: plan.count }, (_, i) => ({
+    number: i + 1,
+    dueDate: installmentDueDate(plan, i),
+    amount: i === plan.count - 1 ? amount - share * (plan.count - 1) : share,
+  }));
+}
+
+// Applies a client's payments to what they owe, oldest due date first. Charges without a plan are due on
+// their own date. Returns the state of every installment; `today` is a 'YYYY-MM-DD' date.
+export function computeInstallmentStatus(transactions: Transaction[], today: string): InstallmentStatus[] {
+  const obligations: { dueDate: string; amount: number; status?: InstallmentStatus }[] = [];
+  transactions.filter(t => t.amount > 0).forEach(t => {
+    if (!t.installmentPlan) {
+      obligations.push({ dueDate: t.date, amount: t.amount });
+      return;
+    }
+    buildInstallments(t.amount, t.installmentPlan).forEach(installment => obligations.push({
+      dueDate: installment.dueDate, amount: installment.amount, status: { ...installment, transaction: t, paid: 0, overdue: false },
+    }));
+  });
+  obligations.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  let payments = -sumMoney(transactions.filter(t => t.amount < 0).map(t => t.amount));
+  const statuses: InstallmentStatus[] = [];
+  obligations.forEach(obligation => {
+    const paid = Math.min(payments, obligation.amount);
+    payments -= paid;
+    if (!obligation.status) return;
+    obligation.status.paid = paid;
+    obligation.status.overdue = obligation.amount - paid > 0 && obligation.dueDate < today;
+    statuses.push(obligation.status);
+  });
+  return statuses;
+}
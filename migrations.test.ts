@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Client, DataSet, Expense, ExpenseCategory, Sale, StockMovement, Transaction } from './types';
+import { MIGRATIONS, SCHEMA_VERSION, migrateData } from './migrations';
+
+// Data as the localStorage version saved it: float amounts, free-text expense categories, fields that
+// older records didn't have yet and stock kept as a plain count on each product.
+function legacyData(): DataSet {
+  return {
+    clients: [{ id: 'c1', name: 'Ana' }],
+    transactions: [{ id: 't1', clientId: 'c1', amount: 10.5, date: '2026-01-05' }],
+    sales: [{
+      id: 's1', amount: 30.1, date: '2026-01-10', description: 'Perfumes',
+      items: [{ productId: 'p1', name: 'Perfume', quantity: 2, unitPrice: 15.05, discount: 0 }],
+    }],
+    expenses: [
+      { id: 'e1', amount: 4.99, date: '2026-01-03', description: 'Bus', category: 'Transporte' },
+      { id: 'e2', amount: 2, date: '2026-01-04', description: 'Taxi', category: 'transporte ' },
+      { id: 'e3', amount: 1, date: '2026-01-04', description: 'Otro' },
+    ],
+    products: [{ id: 'p1', name: 'Perfume', price: 15.05, quantity: 3 }],
+    creditors: [],
+    creditorTransactions: [],
+  } as unknown as DataSet;
+}
+
+describe('MIGRATIONS', () => {
+  it('are numbered consecutively up to SCHEMA_VERSION', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('log a line for each kind of change and nothing when there is nothing to change', () => {
+    const data = legacyData();
+    expect(MIGRATIONS[0].migrate(data)).toEqual([
+      'clients.phone: 1 registro(s) sin valor → ""',
+      'transactions.description: 1 registro(s) sin valor → ""',
+      'expenses.category: 1 registro(s) sin valor → "Sin categoría"',
+      'products.description: 1 registro(s) sin valor → ""',
+    ]);
+    expect(MIGRATIONS[0].migrate(data)).toEqual([]);
+  });
+});
+
+describe('migrateData', () => {
+  it('upgrades a legacy data set to the current schema', () => {
+    const data = legacyData();
+    migrateData(data, 0);
+
+    expect((data.clients[0] as Client).phone).toBe('');
+    expect(data.transactions[0]).toMatchObject({ amount: 1050, description: '' });
+    const sale = data.sales[0] as Sale;
+    expect(sale.amount).toBe(3010);
+    expect(sale.items![0]).toMatchObject({ unitPrice: 1505, discount: 0 });
+
+    const categories = data.categories as ExpenseCategory[];
+    expect(categories.map(c => c.name)).toEqual(['Transporte', 'Sin categoría']);
+    const expenses = data.expenses as (Expense & { category?: string })[];
+    expect(expenses.map(e => e.categoryId)).toEqual([categories[0].id, categories[0].id, categories[1].id]);
+    expect(expenses.every(e => e.category === undefined)).toBe(true);
+    expect(expenses.map(e => e.amount)).toEqual([499, 200, 100]);
+    expect(data.products[0]).toMatchObject({ description: '', price: 1505, quantity: 3 });
+
+    // The sold units come back as a sale movement; the initial count is what was on hand before the sale.
+    const movements = data.stockMovements as StockMovement[];
+    expect(movements.map(m => [m.kind, m.quantity, m.date])).toEqual([['sale', -2, '2026-01-10'], ['initial', 5, '2026-01-10']]);
+    expect(movements[0]).toMatchObject({ productId: 'p1', sourceType: 'sales', sourceId: 's1' });
+
+    expect(data.recurringTemplates).toEqual([]);
+    expect(data.campaigns).toEqual([]);
+    expect(data.orders).toEqual([]);
+  });
+
+  it('only runs the steps newer than the given version', () => {
+    const data = legacyData();
+    migrateData(data, 1);
+    expect((data.transactions[0] as Transaction).amount).toBe(1050);
+    expect((data.transactions[0] as Transaction).description).toBeUndefined();
+    expect(data.stockMovements).toHaveLength(2);
+    expect(data.categories).toHaveLength(2);
+  });
+
+  it('leaves current data untouched', () => {
+    const data = legacyData();
+    migrateData(data, 0);
+    const snapshot = JSON.stringify(data);
+    migrateData(data, SCHEMA_VERSION);
+    expect(JSON.stringify(data)).toBe(snapshot);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DataSet, EntityType, Expense, ExpenseCategory, Product, Sale, StockMovement, Transaction } from './types';
+import { toMinor } from './money';
+import { normalizeText } from './text';
+import { CATEGORY_COLORS, DEFAULT_CATEGORY_ICON } from './categories';
+
+// Each step upgrades the stored data by one schema version. Steps mutate the data set in place
+// and return a human-readable line for every kind of change they made.
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: DataSet): string[];
+}
+
+export interface MigrationLogEntry {
+  version: number;
+  description: string;
+  ranAt: string;
+  changes: string[];
+}
+
+export function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+}
+
+// Converts float amounts to minor units on every record of `type`, including sale line items. Returns a log line.
+function convertToMinor(data: DataSet, type: EntityType, fields: string[]): string[] {
+  let count = 0;
+  const convert = (record: Record<string, unknown>, keys: string[]) => keys.filter(key => {
+    if (typeof record[key] !== 'number') return false;
+    record[key] = toMinor(record[key] as number);
+    return true;
+  }).length;
+  data[type].forEach(item => {
+    let converted = convert(item as unknown as Record<string, unknown>, fields);
+    ((item as Sale).items || []).forEach(line => converted += convert(line as unknown as Record<string, unknown>, ['unitPrice', 'discount', 'unitCost']));
+    if (converted) count++;
+  });
+  return count ? [`${type}: ${count} registro(s) convertidos a centavos`] : [];
+}
+
+// Sets `field` to `value` on every record of `type` where it is missing. Returns a log line, if anything changed.
+function fillDefault(data: DataSet, type: EntityType, field: string, value: unknown): string[] {
+  let count = 0;
+  data[type].forEach(item => {
+    const record = item as unknown as Record<string, unknown>;
+    if (record[field] === undefined || record[field] === null || (typeof value === 'number' && !isFinite(record[field] as number))) {
+      record[field] = value;
+      count++;
+    }
+  });
+  return count > 0 ? [`${type}.${field}: ${count} registro(s) sin valor → ${JSON.stringify(value)}`] : [];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Valores por defecto para campos faltantes',
+    migrate: data => [
+      ...fillDefault(data, 'clients', 'phone', ''),
+      ...fillDefault(data, 'creditors', 'phone', ''),
+      ...fillDefault(data, 'transactions', 'description', ''),
+      ...fillDefault(data, 'sales', 'description', ''),
+      ...fillDefault(data, 'expenses', 'description', ''),
+      ...fillDefault(data, 'expenses', 'category', 'Sin categoría'),
+      ...fillDefault(data, 'products', 'description', ''),
+      ...fillDefault(data, 'products', 'price', 0),
+      ...fillDefault(data, 'products', 'quantity', 0),
+      ...fillDefault(data, 'creditorTransactions', 'description', ''),
+    ],
+  },
+  {
+    version: 2,
+    description: 'Movimientos de inventario a partir del stock actual',
+    // Sales with line items already deducted their stock, so they become 'sale' movements and the
+    // initial count is the current quantity plus everything they sold.
+    migrate: data => {
+      data.stockMovements = data.stockMovements || [];
+      const sold = new Map<string, { quantity: number; firstDate: string }>();
+      let saleMovements = 0;
+      (['sales', 'transactions'] as const).forEach(type => (data[type] as (Sale | Transaction)[]).forEach(record => {
+        (record.items || []).forEach(item => {
+          data.stockMovements.push({
+            id: generateId(), productId: item.productId, date: record.date, quantity: -item.quantity,
+            kind: 'sale', sourceType: type, sourceId: record.id,
+            ...(record.deletedAt ? { deletedAt: record.deletedAt, deletionId: record.deletionId } : {}),
+          } as StockMovement);
+          saleMovements++;
+          if (record.deletedAt) return;
+          const entry = sold.get(item.productId) || { quantity: 0, firstDate: record.date };
+          sold.set(item.productId, { quantity: entry.quantity + item.quantity, firstDate: record.date < entry.firstDate ? record.date : entry.firstDate });
+        });
+      }));
+
+      let initialMovements = 0;
+      (data.products as Product[]).forEach(product => {
+        const entry = sold.get(product.id);
+        const initial = (product.quantity || 0) + (entry?.quantity || 0);
+        if (initial === 0) return;
+        data.stockMovements.push({
+          id: generateId(), productId: product.id, date: entry?.firstDate || new Date().toISOString().split('T')[0],
+          quantity: initial, kind: 'initial',
+        } as StockMovement);
+        initialMovements++;
+      });
+      return [
+        ...(initialMovements ? [`stockMovements: ${initialMovements} conteo(s) inicial(es) creados`] : []),
+        ...(saleMovements ? [`stockMovements: ${saleMovements} movimiento(s) de venta creados`] : []),
+      ];
+    },
+  },
+  {
+    version: 3,
+    description: 'Montos en unidades menores (centavos)',
+    migrate: data => [
+      ...convertToMinor(data, 'transactions', ['amount']),
+      ...convertToMinor(data, 'sales', ['amount']),
+      ...convertToMinor(data, 'expenses', ['amount']),
+      ...convertToMinor(data, 'creditorTransactions', ['amount']),
+      ...convertToMinor(data, 'products', ['price', 'cost']),
+      ...convertToMinor(data, 'stockMovements', ['unitCost']),
+    ],
+  },
+  {
+    version: 4,
+    description: 'Categorías de gastos administradas',
+    // Each distinct free-text category becomes a category record. Names that only differ in case or
+    // accents ("Transporte", "transporte") share one; anything else is left for the merge tool.
+    migrate: data => {
+      data.categories = data.categories || [];
+      const byName = new Map((data.categories as ExpenseCategory[]).map(c => [normalizeText(c.name), c]));
+      let created = 0;
+      let linked = 0;
+      (data.expenses as (Expense & { category?: string })[]).forEach(expense => {
+        if (expense.categoryId) return;
+        const name = (expense.category || '').trim() || 'Sin categoría';
+        let category = byName.get(normalizeText(name));
+        if (!category) {
+          category = { id: generateId(), name, icon: DEFAULT_CATEGORY_ICON, color: CATEGORY_COLORS[byName.size % CATEGORY_COLORS.length] };
+          byName.set(normalizeText(name), category);
+          data.categories.push(category);
+          created++;
+        }
+        expense.categoryId = category.id;
+        delete expense.category;
+        linked++;
+      });
+      return [
+        ...(created ? [`categories: ${created} categoría(s) creadas a partir de los gastos`] : []),
+        ...(linked ? [`expenses: ${linked} gasto(s) enlazados a su categoría`] : []),
+      ];
+    },
+  },
+  {
+    version: 5,
+    description: 'Gastos recurrentes',
+    migrate: data => {
+      data.recurringTemplates = data.recurringTemplates || [];
+      return [];
+    },
+  },
+  {
+    version: 6,
+    description: 'Campañas de catálogo',
+    migrate: data => {
+      data.campaigns = data.campaigns || [];
+      return [];
+    },
+  },
+  {
+    version: 7,
+    description: 'Pedidos de clientes',
+    migrate: data => {
+      data.orders = data.orders || [];
+      return [];
+    },
+  },
+];
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs every step newer than `fromVersion` on an in-memory data set (e.g. an old backup file).
+export function migrateData(data: DataSet, fromVersion: number): void {
+  MIGRATIONS.filter(m => m.version > fromVersion).forEach(m => m.migrate(data));
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MAX_MONEY, parseMoney, sumMoney, toMajor, toMinor } from './money';
+
+describe('parseMoney', () => {
+  it('reads whole and decimal amounts in major units', () => {
+    expect(parseMoney('12500')).toBe(1250000);
+    expect(parseMoney('12500.50')).toBe(1250050);
+    expect(parseMoney(' -3.5 ')).toBe(-350);
+  });
+
+  it('rounds to the nearest minor unit', () => {
+    expect(parseMoney('0.005')).toBe(1);
+    expect(parseMoney('1.234')).toBe(123);
+    expect(parseMoney('1.015')).toBe(102);
+  });
+
+  it('rounds negative amounts like the positive ones, away from zero', () => {
+    expect(parseMoney('-0.005')).toBe(-1);
+    expect(parseMoney('-1.234')).toBe(-123);
+    expect(parseMoney('-1.015')).toBe(-102);
+  });
+
+  it('rejects empty, malformed and absurd values', () => {
+    ['', '  ', 'abc', '12,50', '1.2.3', '1e5', '.5', '5.'].forEach(value => expect(parseMoney(value)).toBeNaN());
+    expect(parseMoney('10000000000000')).toBeNaN();
+    expect(parseMoney(String(toMajor(MAX_MONEY)))).toBe(MAX_MONEY);
+  });
+});
+
+describe('toMinor and toMajor', () => {
+  it('round-trip amounts with cents', () => {
+    expect(toMinor(0.1 + 0.2)).toBe(30);
+    expect(toMajor(toMinor(19.99))).toBe(19.99);
+  });
+
+  it('round half a minor unit the same way on both sides of zero', () => {
+    [0.005, 0.015, 0.125, 1.005, 2.675, 10.125].forEach(major => expect(toMinor(-major)).toBe(-toMinor(major)));
+    expect(toMinor(-0.004)).toBe(0);
+  });
+});
+
+describe('sumMoney', () => {
+  it('adds amounts exactly', () => {
+    const amounts = Array.from({ length: 10 }, () => toMinor(0.1));
+    expect(sumMoney(amounts)).toBe(100);
+    expect(sumMoney([])).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Money } from './types';
+
+// Amounts are stored as integers in minor units so that sums and balances are exact. Convert only at
+// the edges: parseMoney for user input, toMajor for form values and formatMoney for display.
+export const MINOR_PER_MAJOR = 100;
+export const MAX_MONEY: Money = 1e12 * MINOR_PER_MAJOR; // rejects typos like a few extra zeros
+
+// Rounds half a minor unit away from zero, so a refund rounds like the sale it undoes. The float error
+// of the multiplication is trimmed first: 1.015 is 101.49999… minor units but should round to 102.
+export function toMinor(major: number): Money {
+  const minor = Math.round(parseFloat((Math.abs(major) * MINOR_PER_MAJOR).toPrecision(15)));
+  return major < 0 && minor !== 0 ? -minor : minor;
+}
+
+export function toMajor(amount: Money): number {
+  return amount / MINOR_PER_MAJOR;
+}
+
+// Parses an amount typed in major units ("12500.50"). Returns NaN for empty, malformed or absurd values.
+export function parseMoney(value: string): Money {
+  if (!/^\s*-?\d+(\.\d+)?\s*$/.test(value)) return NaN;
+  const amount = toMinor(parseFloat(value));
+  return Math.abs(amount) > MAX_MONEY ? NaN : amount;
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0);
+}
@@ -1,10 +1,18 @@
 // A robust, cache-first service worker
-const CACHE_NAME = 'gestion-finanzas-cache-v4'; // Version updated for robust caching & icon font
+const CACHE_NAME = 'gestion-finanzas-cache-v5'; // Version updated for payment reminders
 const urlsToCache = [
   '/',
   '/index.html',
   '/index.css',
   '/index.tsx',
+  '/types.ts',
+  '/money.ts',
+  '/text.ts',
+  '/categories.ts',
+  '/migrations.ts',
+  '/installments.ts',
+  '/aging.ts',
+  '/sync.ts',
   '/cookbook.json',
   '/metadata.json',
   '/manifest.json',
@@ -60,4 +68,81 @@ self.addEventListener('fetch', event => {
       }
     )
   );
-});
\ No newline at end of file
+});
+// --- Payment reminders ---
+// The app computes upcoming reminders and stores them in the IndexedDB meta store; here we only
+// show the ones due today that haven't been shown yet.
+function readMeta(db, key) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('meta', 'readonly').objectStore('meta').get(key);
+    request.onsuccess = () => resolve(request.result ? request.result.value : undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function writeMeta(db, key, value) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction('meta', 'readwrite');
+    tx.objectStore('meta').put({ key, value });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('gestion-finanzas');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function showDueReminders() {
+  const db = await openDatabase();
+  try {
+    if (!db.objectStoreNames.contains('meta') || !(await readMeta(db, 'remindersEnabled'))) return;
+    const today = new Date().toISOString().split('T')[0];
+    const queue = (await readMeta(db, 'reminderQueue')) || [];
+    const shown = (await readMeta(db, 'shownReminders')) || [];
+    const due = queue.filter(reminder => reminder.date === today && !shown.includes(reminder.id));
+    for (const reminder of due) {
+      await self.registration.showNotification(reminder.title, {
+        body: reminder.body,
+        tag: reminder.id,
+        icon: '/icon-192.svg',
+        data: { url: reminder.url },
+      });
+    }
+    // Keep the list short; ids include their date, so old ones never come back
+    await writeMeta(db, 'shownReminders', [...shown, ...due.map(reminder => reminder.id)].slice(-200));
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'show-reminders') {
+    event.waitUntil(showDueReminders());
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'payment-reminders') {
+    event.waitUntil(showDueReminders());
+  }
+});
+
+// Tapping a notification opens the matching client or creditor, reusing an open window if there is one.
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const client = windows[0];
+      if (client) {
+        return client.navigate(url).then(c => (c || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
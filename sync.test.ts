@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Client, DataSet, Entity, EntityType, Sale, StockMovement } from './types';
+import { CHANGE_SET_KIND, planMerge, type ChangeSet, type SyncPlan, type Tombstone } from './sync';
+
+const HERE = 'device-a';
+const THERE = 'device-b';
+// Each device's timestamps come from its own clock, so the two are only ever compared with their own.
+const SEEN_HERE = '2026-10-01T12:00:00.000Z'; // last change set from THERE imported here (THERE's clock)
+const SEEN_THERE = '2026-10-01T12:00:00.000Z'; // last change set from HERE imported there (HERE's clock)
+
+const client = (id: string, phone: string, updatedAt: string, updatedBy: string): Client =>
+  ({ id, name: 'Ana', phone, updatedAt, updatedBy });
+
+const sale = (id: string, quantity: number, updatedAt: string, updatedBy: string): Sale => ({
+  id, date: '2026-10-01', amount: quantity * 1000, description: 'Perfume', updatedAt, updatedBy,
+  items: [{ productId: 'p1', name: 'Perfume', quantity, unitPrice: 1000, discount: 0 }],
+});
+
+// The movement saveWithStockMovements() writes for a sale, stamped like the sale.
+const movement = (id: string, source: Sale): StockMovement => ({
+  id, productId: 'p1', date: source.date, quantity: -source.items![0].quantity, kind: 'sale', sourceType: 'sales',
+  sourceId: source.id, updatedAt: source.updatedAt, updatedBy: source.updatedBy,
+});
+
+function dataSet(records: Partial<Record<EntityType, Entity[]>>): DataSet {
+  const types: EntityType[] = ['clients', 'transactions', 'sales', 'expenses', 'categories', 'recurringTemplates', 'products',
+    'creditors', 'creditorTransactions', 'campaigns', 'orders', 'stockMovements'];
+  return Object.fromEntries(types.map(type => [type, [...(records[type] ?? [])]])) as unknown as DataSet;
+}
+
+function changeSet(records: { type: EntityType; item: Entity }[], tombstones: Tombstone[] = [], seen = SEEN_THERE): ChangeSet {
+  return {
+    app: 'test', kind: CHANGE_SET_KIND, dataVersion: 1, deviceId: THERE, since: null, exportedAt: '2026-10-02T00:00:00.000Z',
+    seen: { [HERE]: seen }, records, tombstones,
+  };
+}
+
+const clients = (...items: Client[]) => items.map(item => ({ type: 'clients' as const, item }));
+
+// What importChanges does with a plan, minus the conflicts it stores for review.
+function apply(plan: SyncPlan, local: DataSet, tombstones: Tombstone[]): void {
+  plan.writes.forEach(({ type, item }) => {
+    local[type] = [...local[type].filter(e => e.id !== item.id), item];
+  });
+  plan.purges.forEach(({ type, item, tombstone }) => {
+    local[type] = local[type].filter(e => e.id !== item.id);
+    tombstones.push(tombstone);
+  });
+  tombstones.push(...plan.tombstones);
+}
+
+describe('planMerge', () => {
+  it('reports a conflict when each device changed the record without having seen the other change', () => {
+    const local = client('c1', 'local', '2026-10-01T13:00:00.000Z', HERE);
+    const incoming = client('c1', 'incoming', '2026-10-01T14:00:00.000Z', THERE);
+    const plan = planMerge(changeSet(clients(incoming)), dataSet({ clients: [local] }), [], HERE, SEEN_HERE);
+    expect(plan.writes).toEqual([]);
+    expect(plan.conflicts).toEqual([expect.objectContaining({ type: 'clients', id: 'c1', local, incoming })]);
+  });
+
+  it('takes the incoming change when the other device had already seen the local one', () => {
+    const local = client('c1', 'local', '2026-10-01T11:00:00.000Z', HERE);
+    const incoming = client('c1', 'incoming', '2026-10-01T14:00:00.000Z', THERE);
+    const plan = planMerge(changeSet(clients(incoming)), dataSet({ clients: [local] }), [], HERE, SEEN_HERE);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.writes).toEqual([{ type: 'clients', before: local, item: incoming }]);
+  });
+
+  it('treats every local change as unseen until the other device imports a change set from here', () => {
+    const local = client('c1', 'local', '2026-09-01T00:00:00.000Z', HERE);
+    const incoming = client('c1', 'incoming', '2026-10-01T14:00:00.000Z', THERE);
+    const changes = { ...changeSet(clients(incoming)), seen: {} };
+    expect(planMerge(changes, dataSet({ clients: [local] }), [], HERE, SEEN_HERE).conflicts).toHaveLength(1);
+  });
+
+  it('skips versions this device already had, whatever their content', () => {
+    const local = client('c1', 'local', '2026-10-01T13:00:00.000Z', HERE);
+    const seenBefore = client('c1', 'old', '2026-10-01T10:00:00.000Z', THERE);
+    const same = client('c2', 'same', '2026-10-01T15:00:00.000Z', THERE);
+    const plan = planMerge(changeSet(clients(seenBefore, same)), dataSet({
+      clients: [local, client('c2', 'same', '2026-10-01T09:00:00.000Z', HERE)],
+    }), [], HERE, SEEN_HERE);
+    expect(plan).toMatchObject({ writes: [], conflicts: [], skipped: 2 });
+  });
+
+  describe('with clocks that disagree', () => {
+    it('takes a change made after seeing the local one, even if its clock says it is older', () => {
+      // THERE's clock runs two hours behind: it imported the local change and then edited the client.
+      const local = client('c1', 'local', '2026-10-01T11:30:00.000Z', HERE);
+      const incoming = client('c1', 'incoming', '2026-10-01T12:30:00.000Z', THERE);
+      const plan = planMerge(changeSet(clients(incoming)), dataSet({ clients: [local] }), [], HERE, '2026-10-01T10:00:00.000Z');
+      expect(plan.conflicts).toEqual([]);
+      expect(plan.writes).toEqual([{ type: 'clients', before: local, item: incoming }]);
+
+      const behind = client('c1', 'incoming', '2026-10-01T09:30:00.000Z', THERE);
+      const fromBehind = planMerge(changeSet(clients(behind)), dataSet({ clients: [local] }), [], HERE, '2026-10-01T09:00:00.000Z');
+      expect(fromBehind.writes).toEqual([{ type: 'clients', before: local, item: behind }]);
+    });
+
+    it('reports a conflict for a change made without seeing the local one, even if its clock says it is newer', () => {
+      // THERE's clock runs two hours ahead and it never saw the local change.
+      const local = client('c1', 'local', '2026-10-01T13:00:00.000Z', HERE);
+      const incoming = client('c1', 'incoming', '2026-10-01T16:00:00.000Z', THERE);
+      const plan = planMerge(changeSet(clients(incoming)), dataSet({ clients: [local] }), [], HERE, SEEN_HERE);
+      expect(plan.writes).toEqual([]);
+      expect(plan.conflicts).toHaveLength(1);
+    });
+  });
+
+  describe('tombstones', () => {
+    const tombstone: Tombstone = { id: 'c1', type: 'clients', deletedAt: '2026-10-01T14:00:00.000Z', deviceId: THERE };
+
+    it('purge a record the other device had seen before deleting it', () => {
+      const local = client('c1', 'local', '2026-10-01T11:00:00.000Z', HERE);
+      const plan = planMerge(changeSet([], [tombstone]), dataSet({ clients: [local] }), [], HERE, SEEN_HERE);
+      expect(plan.purges).toEqual([{ type: 'clients', item: local, tombstone }]);
+    });
+
+    it('conflict with a local change the other device had not seen', () => {
+      const local = client('c1', 'local', '2026-10-01T13:00:00.000Z', HERE);
+      const plan = planMerge(changeSet([], [tombstone]), dataSet({ clients: [local] }), [], HERE, SEEN_HERE);
+      expect(plan.purges).toEqual([]);
+      expect(plan.conflicts).toEqual([expect.objectContaining({ id: 'c1', local, incoming: null })]);
+    });
+
+    it('let a change made without knowing about the local delete bring the record back, but not one seen before', () => {
+      const localTombstones: Tombstone[] = [{ ...tombstone, deviceId: HERE }];
+      const unseen = client('c1', 'later', '2026-10-01T13:00:00.000Z', THERE);
+      expect(planMerge(changeSet(clients(unseen)), dataSet({}), localTombstones, HERE, SEEN_HERE).writes).toEqual([{ type: 'clients', item: unseen }]);
+      const seenBefore = client('c1', 'earlier', '2026-10-01T11:00:00.000Z', THERE);
+      expect(planMerge(changeSet(clients(seenBefore)), dataSet({}), localTombstones, HERE, SEEN_HERE)).toMatchObject({ writes: [], skipped: 1 });
+    });
+
+    it('are kept for records this device never had', () => {
+      const plan = planMerge(changeSet([], [tombstone]), dataSet({}), [], HERE, SEEN_HERE);
+      expect(plan.tombstones).toEqual([tombstone]);
+    });
+  });
+
+  describe('stock movements', () => {
+    const original = sale('s1', 1, '2026-10-01T09:00:00.000Z', HERE);
+
+    it('keep one set per sale when the sale was edited on both devices', () => {
+      const localSale = sale('s1', 2, '2026-10-01T13:00:00.000Z', HERE);
+      const incomingSale = sale('s1', 3, '2026-10-01T13:00:00.000Z', THERE);
+      const incomingMovement = movement('m-there', incomingSale);
+      const local = dataSet({ sales: [localSale], stockMovements: [movement('m-here', localSale)] });
+      const plan = planMerge(changeSet([
+        { type: 'sales', item: incomingSale }, { type: 'stockMovements', item: incomingMovement },
+      ]), local, [], HERE, SEEN_HERE);
+
+      expect(plan.conflicts).toEqual([expect.objectContaining({ id: 's1', incoming: incomingSale, movements: [incomingMovement] })]);
+      expect(plan).toMatchObject({ writes: [], purges: [] });
+      apply(plan, local, []);
+      expect((local.stockMovements as StockMovement[]).map(m => m.id)).toEqual(['m-here']);
+    });
+
+    it('replace the local set when the incoming version of the sale wins', () => {
+      const incomingSale = sale('s1', 3, '2026-10-01T13:00:00.000Z', THERE);
+      const local = dataSet({ sales: [original], stockMovements: [movement('m-here', original)] });
+      const plan = planMerge(changeSet([
+        { type: 'sales', item: incomingSale }, { type: 'stockMovements', item: movement('m-there', incomingSale) },
+      ]), local, [], HERE, SEEN_HERE);
+      apply(plan, local, []);
+      expect((local.stockMovements as StockMovement[]).map(m => [m.id, m.quantity])).toEqual([['m-there', -3]]);
+      expect(plan.purges[0].tombstone).toMatchObject({ id: 'm-here', type: 'stockMovements', deviceId: HERE });
+    });
+
+    it('drop incoming movements of a version that lost to the local one', () => {
+      const incomingSale = sale('s1', 3, '2026-10-01T11:00:00.000Z', THERE);
+      const localSale = sale('s1', 2, '2026-10-01T11:30:00.000Z', HERE);
+      const local = dataSet({ sales: [localSale], stockMovements: [movement('m-here', localSale)] });
+      const plan = planMerge(changeSet([
+        { type: 'sales', item: incomingSale }, { type: 'stockMovements', item: movement('m-there', incomingSale) },
+      ]), local, [], HERE, SEEN_HERE);
+      expect(plan).toMatchObject({ writes: [], purges: [], conflicts: [], skipped: 2 });
+    });
+  });
+
+  it('changes nothing when the same change set is imported twice', () => {
+    const local = dataSet({ clients: [client('c1', 'old', '2026-10-01T10:00:00.000Z', HERE), client('c2', 'old', '2026-10-01T10:00:00.000Z', HERE)] });
+    const tombstones: Tombstone[] = [];
+    const changes = changeSet(
+      clients(client('c1', 'new', '2026-10-01T14:00:00.000Z', THERE), client('c3', 'new', '2026-10-01T14:00:00.000Z', THERE)),
+      [{ id: 'c2', type: 'clients', deletedAt: '2026-10-01T14:00:00.000Z', deviceId: THERE }],
+    );
+
+    const first = planMerge(changes, local, tombstones, HERE, SEEN_HERE);
+    expect([first.writes.length, first.purges.length, first.skipped]).toEqual([2, 1, 0]);
+    apply(first, local, tombstones);
+
+    const second = planMerge(changes, local, tombstones, HERE, SEEN_HERE);
+    expect(second).toMatchObject({ writes: [], purges: [], tombstones: [], conflicts: [], skipped: 3 });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { DataSet, Entity, EntityType, Sale, StockMovement } from './types';
+
+// Two devices keep their data in step by exchanging change set files, with no server involved.
+// Every record carries when and on which device a user last changed it (updatedAt/updatedBy) and
+// permanent deletes leave a tombstone. Each change set also says up to when it had seen the other
+// device's changes, so an import takes the changes this device hadn't seen, except for records the
+// other device changed without having seen this one's change: those wait for review. Timestamps
+// are only compared with others from the same device, as the two clocks may disagree.
+
+// Left behind when a record is deleted permanently, so a sync can delete it on the other device too.
+export interface Tombstone {
+  id: string;
+  type: EntityType;
+  deletedAt: string;
+  deviceId: string;
+}
+
+export const CHANGE_SET_KIND = 'changes';
+
+export interface ChangeSet {
+  app: string;
+  kind: typeof CHANGE_SET_KIND;
+  dataVersion: number; // must match SCHEMA_VERSION: both devices need the same app version
+  deviceId: string;
+  since: string | null; // changes made after this moment; null when the file has everything
+  exportedAt: string;
+  seen: Record<string, string>; // exportedAt of the last change set imported from each other device
+  records: { type: EntityType; item: Entity }[];
+  tombstones: Tombstone[];
+}
+
+export interface SyncConflict {
+  type: EntityType;
+  id: string;
+  local: Entity;
+  incoming: Entity | null; // null when the other device deleted the record permanently
+  movements?: StockMovement[]; // the other device's stock movements for `incoming`, copied if it's kept
+  detectedAt: string;
+}
+
+export interface SyncPlan {
+  writes: { type: EntityType; before?: Entity; item: Entity }[];
+  purges: { type: EntityType; item: Entity; tombstone: Tombstone }[];
+  tombstones: Tombstone[]; // for records this device never had, so an older copy can't bring them back
+  conflicts: SyncConflict[];
+  skipped: number; // already up to date, or older than the version here
+}
+
+export interface SyncResult {
+  written: number;
+  purged: number;
+  conflicts: number;
+  skipped: number;
+}
+
+// Fields that don't count as a change when comparing two versions of a record; product stock and
+// cost are recomputed from the stock movements after every import.
+const SYNC_IGNORED_FIELDS: Partial<Record<EntityType, string[]>> = { products: ['quantity', 'cost'] };
+
+// Records whose stock movements are replaced every time they're saved, see saveWithStockMovements().
+export const STOCK_SOURCE_TYPES: EntityType[] = ['sales', 'transactions', 'creditorTransactions'];
+
+function sameContent(type: EntityType, a: Entity, b: Entity): boolean {
+  const ignored = ['updatedAt', 'updatedBy', ...(SYNC_IGNORED_FIELDS[type] ?? [])];
+  const content = (item: Entity) => JSON.stringify(Object.entries(item).filter(([field]) => !ignored.includes(field)).sort(([x], [y]) => x.localeCompare(y)));
+  return content(a) === content(b);
+}
+
+// Products whose stock depends on these versions of a record.
+export function stockProductIds(type: EntityType, items: (Entity | undefined)[]): string[] {
+  const present = items.filter((item): item is Entity => !!item);
+  if (type === 'products') return present.map(item => item.id);
+  if (type === 'stockMovements') return present.map(item => (item as StockMovement).productId);
+  return present.flatMap(item => ((item as Sale).items ?? []).map(line => line.productId));
+}
+
+// The movements of `source` that belong to another version of it. Saving a record replaces all its
+// movements with ones stamped by the same device, so after both devices edited a sale only the
+// movements of the device whose version was kept count.
+function staleMovements(source: Entity, movements: StockMovement[]): StockMovement[] {
+  return source.updatedBy ? movements.filter(m => m.sourceId === source.id && m.updatedBy !== source.updatedBy) : [];
+}
+
+// `seenUntil` is the exportedAt of the last change set from the same device imported here before.
+export function planMerge(changeSet: ChangeSet, local: DataSet, localTombstones: Tombstone[], deviceId: string, seenUntil: string | null): SyncPlan {
+  const plan: SyncPlan = { writes: [], purges: [], tombstones: [], conflicts: [], skipped: 0 };
+  const byId = new Map((Object.keys(local) as EntityType[]).map(type => [type, new Map(local[type].map(item => [item.id, item]))]));
+  const purged = new Set(localTombstones.map(t => t.id));
+  const now = new Date().toISOString();
+  const seenThere = changeSet.seen[deviceId];
+  // Changed on the other device after its last change set imported here; anything else in the file
+  // is a version this device already had.
+  const isNewHere = (item: Entity) => item.updatedBy === changeSet.deviceId && (!seenUntil || (item.updatedAt ?? '') > seenUntil);
+  // Changed here after the last change set the other device had imported when it exported.
+  const isNewThere = (item: Entity) => item.updatedBy === deviceId && (!seenThere || (item.updatedAt ?? '') > seenThere);
+
+  changeSet.records.forEach(({ type, item }) => {
+    const current = byId.get(type)!.get(item.id);
+    if (!current) {
+      // A change made without knowing about the delete here brings the record back
+      if (purged.has(item.id) && !isNewHere(item)) plan.skipped++;
+      else plan.writes.push({ type, item });
+    } else if (sameContent(type, current, item) || !isNewHere(item)) {
+      plan.skipped++;
+    } else if (isNewThere(current)) {
+      plan.conflicts.push({ type, id: item.id, local: current, incoming: item, detectedAt: now });
+    } else {
+      plan.writes.push({ type, before: current, item });
+    }
+  });
+
+  changeSet.tombstones.forEach(tombstone => {
+    const current = byId.get(tombstone.type)!.get(tombstone.id);
+    if (!current) {
+      if (!purged.has(tombstone.id)) plan.tombstones.push(tombstone);
+      else plan.skipped++;
+    } else if (isNewThere(current)) {
+      plan.conflicts.push({ type: tombstone.type, id: tombstone.id, local: current, incoming: null, detectedAt: now });
+    } else {
+      plan.purges.push({ type: tombstone.type, item: current, tombstone });
+    }
+  });
+
+  // Keep only the movements of the version of each record that won. For a record in conflict both
+  // sets can't count at once, so the other device's movements wait in the conflict.
+  const conflicts = new Map(plan.conflicts.map(c => [c.id, c]));
+  const winners = new Map(plan.writes.filter(({ type }) => STOCK_SOURCE_TYPES.includes(type)).map(({ item }) => [item.id, item]));
+  plan.writes = plan.writes.filter(({ type, item }) => {
+    const movement = item as StockMovement;
+    if (type !== 'stockMovements' || !movement.sourceId) return true;
+    const conflict = conflicts.get(movement.sourceId);
+    if (conflict) {
+      (conflict.movements ??= []).push(movement);
+      return false;
+    }
+    const source = winners.get(movement.sourceId) ?? (movement.sourceType && byId.get(movement.sourceType)!.get(movement.sourceId));
+    if (source && staleMovements(source, [movement]).length > 0) {
+      plan.skipped++;
+      return false;
+    }
+    return true;
+  });
+  const purging = new Set(plan.purges.map(({ item }) => item.id));
+  winners.forEach(source => {
+    staleMovements(source, local.stockMovements as StockMovement[])
+      .filter(m => !purging.has(m.id))
+      .forEach(m => plan.purges.push({ type: 'stockMovements', item: m, tombstone: { id: m.id, type: 'stockMovements', deletedAt: now, deviceId } }));
+  });
+  return plan;
+}
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type Money = number; // integer amount in minor units (hundredths), see money.ts
+// Fields shared by every stored record.
+export interface StoredEntity {
+  id: string;
+  deletedAt?: string; // set when the record is in the recycle bin
+  deletionId?: string; // groups a record with the children deleted along with it
+  updatedAt?: string; // when a user last created, changed or deleted it; sync keeps the latest
+  updatedBy?: string; // id of the device that made that change
+}
+
+export interface Client extends StoredEntity {
+  name: string;
+  phone: string;
+}
+
+// One product line of a multi-item sale.
+export interface SaleItem {
+  productId: string;
+  name: string; // product name at the time of the sale
+  quantity: number;
+  unitPrice: Money;
+  discount: Money; // amount taken off the line total
+  unitCost?: Money; // product's average cost when it was sold; missing on sales made before costs were tracked
+}
+
+export type InstallmentFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+// Payment plan of a credit sale. The installments are derived from the charge amount, see buildInstallments.
+export interface InstallmentPlan {
+  count: number;
+  frequency: InstallmentFrequency;
+  firstDueDate: string;
+}
+
+export interface Transaction extends StoredEntity {
+  clientId: string;
+  date: string;
+  amount: Money; // positive for sale/loan, negative for payment
+  description: string;
+  items?: SaleItem[]; // present when the charge was a sale of inventory products
+  installmentPlan?: InstallmentPlan; // only on charges sold "en cuotas"
+  campaignId?: string; // only on charges
+}
+
+export interface Sale extends StoredEntity { // General sale not tied to a client
+  date: string;
+  amount: Money;
+  description: string;
+  items?: SaleItem[];
+  campaignId?: string;
+}
+
+export interface Expense extends StoredEntity {
+  date: string;
+  amount: Money;
+  categoryId: string;
+  description: string;
+  creditorId?: string; // Optional link to a creditor
+}
+
+// A managed expense category. Expenses point to it by id, so renaming a category renames it everywhere.
+export interface ExpenseCategory extends StoredEntity {
+  name: string;
+  icon: string; // Font Awesome icon class, e.g. 'fa-bus'
+  color: string; // '#rrggbb'
+  budget?: Money; // optional monthly spending limit
+}
+
+export interface Product extends StoredEntity {
+    name: string;
+    description: string;
+    price: Money;
+    quantity: number; // derived from stock movements, only ever written by the Store
+    cost?: Money; // weighted average unit cost of the stock, also derived from the movements
+    sku?: string; // catalog reference code
+    minStock?: number; // the product shows as low and is suggested for reorder at or below this
+    supplierId?: string; // preferred Creditor to reorder from
+}
+
+export interface Creditor extends StoredEntity {
+    name: string;
+    phone: string;
+}
+
+export interface CreditorTransaction extends StoredEntity {
+    creditorId: string;
+    date: string;
+    amount: Money; // positive for purchase, negative for payment
+    description: string;
+    dueDate?: string; // when a purchase has to be paid
+    campaignId?: string; // only on purchases
+}
+
+// A numbered catalog cycle of one supplier. Sales, client charges and supplier purchases are tagged with it.
+export interface Campaign extends StoredEntity {
+    number: number;
+    creditorId: string; // the supplier
+    startDate: string;
+    closeDate: string;
+    orderDeadline?: string; // last day to send orders to the supplier
+}
+
+
+// An expense or creditor charge that repeats. Its occurrences are generated when they fall due and
+// only become records after they are reviewed, see dueOccurrences.
+export interface RecurringTemplate extends StoredEntity {
+    target: 'expenses' | 'creditorTransactions'; // collection the occurrences are saved to
+    description: string;
+    amount: Money;
+    categoryId?: string; // expenses only
+    creditorId?: string; // required for creditor charges; on expenses it also records a payment to the creditor
+    frequency: InstallmentFrequency;
+    startDate: string;
+    endDate?: string;
+    lastDate?: string; // scheduled date of the latest occurrence that was confirmed or skipped
+}
+
+export type OrderStatus = 'pending' | 'ordered' | 'received' | 'delivered';
+
+export interface OrderLine {
+    productId: string;
+    name: string; // product name when the order was taken
+    quantity: number;
+    unitPrice: Money;
+}
+
+// A customer order (pedido) for products that still have to be bought from a supplier.
+// It moves pending → ordered → received → delivered.
+export interface Order extends StoredEntity {
+    clientId: string;
+    date: string;
+    lines: OrderLine[];
+    status: OrderStatus;
+    creditorId?: string; // supplier the products are ordered from
+    campaignId?: string;
+    note?: string;
+    purchaseId?: string; // creditor purchase that brought the stock in
+    transactionId?: string; // client charge created on delivery
+}
+
+export type StockMovementKind = 'initial' | 'purchase' | 'sale' | 'return' | 'adjustment';
+
+// A change in a product's stock. Product.quantity is always the sum of its active movements.
+export interface StockMovement extends StoredEntity {
+    productId: string;
+    date: string;
+    quantity: number; // positive adds stock, negative removes it
+    kind: StockMovementKind;
+    sourceType?: EntityType; // record that caused the movement (a sale, client charge or creditor purchase)
+    sourceId?: string;
+    note?: string;
+    unitCost?: Money; // cost per unit of incoming stock (purchases and initial counts)
+}
+
+export type Entity = Client | Transaction | Sale | Expense | ExpenseCategory | RecurringTemplate | Product | Creditor | CreditorTransaction | Campaign | Order | StockMovement;
+export type EntityType = 'clients' | 'transactions' | 'sales' | 'expenses' | 'categories' | 'recurringTemplates' | 'products' | 'creditors' | 'creditorTransactions' | 'campaigns' | 'orders' | 'stockMovements';
+export type DataSet = Record<EntityType, Entity[]>;